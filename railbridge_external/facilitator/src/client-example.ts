@@ -12,7 +12,6 @@
  * 
  */
 
-import dotenv from "dotenv";
 import { fileURLToPath } from "url";
 import { dirname, join } from "path";
 import { wrapFetchWithPayment } from "@x402/fetch";
@@ -21,36 +20,33 @@ import { registerExactEvmScheme } from "@x402/evm/exact/client";
 import type { PaymentRequirements } from "@x402/core/types";
 import { createWalletClient, http } from "viem";
 import { privateKeyToAccount } from "viem/accounts";
-import { baseSepolia } from "viem/chains";
+import { loadConfigOrExit, overridesFromArgv } from "../../../src/config/index.js";
+import { getNetwork } from "../../../src/x402/networks.js";
 
 // Get directory of current file (for ESM modules)
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-// Load environment variables
-const envPath = join(__dirname, "..", ".env");
-dotenv.config({ path: envPath });
-
-// Configuration
-const MERCHANT_URL = process.env.MERCHANT_URL || "http://localhost:4021";
-const CLIENT_PRIVATE_KEY = process.env.CLIENT_PRIVATE_KEY as `0x${string}` | undefined;
-
-if (!CLIENT_PRIVATE_KEY) {
-  console.error("❌ CLIENT_PRIVATE_KEY environment variable is required");
-  console.error("   Add it to your .env file:");
-  console.error("   CLIENT_PRIVATE_KEY=0xYourPrivateKeyHere");
-  process.exit(1);
-}
+// Configuration (shared Synergy config, see src/config at the repo root)
+// The client pays as the agent: agent.privateKey is read from PRIVATE_KEY or CLIENT_PRIVATE_KEY
+const config = loadConfigOrExit({
+  envFiles: [join(__dirname, "..", ".env")],
+  overrides: overridesFromArgv(),
+  require: ["agent.privateKey"],
+}, ["   Add it to your .env file:", "   CLIENT_PRIVATE_KEY=0x..."]);
+const MERCHANT_URL = config.merchant.url;
+const CLIENT_PRIVATE_KEY = config.agent.privateKey!;
 
 // Create signer from private key
 const signer = privateKeyToAccount(CLIENT_PRIVATE_KEY);
 console.log(`📱 Client wallet: ${signer.address}\n`);
 
 // Create viem wallet client for signing
+const baseSepolia = getNetwork("eip155:84532");
 const viemClient = createWalletClient({
   account: signer,
-  chain: baseSepolia,
-  transport: http(process.env.EVM_RPC_URL || "https://sepolia.base.org"),
+  chain: baseSepolia.chain,
+  transport: http(config.facilitator.rpcUrl || baseSepolia.rpcUrl),
 });
 
 // Create x402 client with custom network selector
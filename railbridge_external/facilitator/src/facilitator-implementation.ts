@@ -1,4 +1,3 @@
-import dotenv from "dotenv";
 import { fileURLToPath } from "url";
 import { dirname, join } from "path";
 import express from "express";
@@ -14,71 +13,52 @@ import { toFacilitatorEvmSigner } from "@x402/evm";
 import { registerExactEvmScheme, ExactEvmScheme } from "@x402/evm/exact/facilitator";
 import { createWalletClient, http, publicActions } from "viem";
 import { privateKeyToAccount } from "viem/accounts";
-import { base, baseSepolia } from "viem/chains";
 import { BridgeService } from "./services/bridgeService.js";
 import { extractCrossChainInfo, CROSS_CHAIN, type CrossChainInfo } from "./extensions/crossChain.js";
 import { Network } from "@x402/core/types";
 import { CrossChainRouter } from "./schemes/crossChainRouter.js";
+import { loadConfigOrExit, overridesFromArgv } from "../../../src/config/index.js";
+import { getNetwork } from "../../../src/x402/networks.js";
 
 // Get directory of current file (for ESM modules)
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-// Load environment variables from .env file in project root
-// This ensures it works regardless of where the script is run from
-const envPath = join(__dirname, "..", ".env");
-const result = dotenv.config({ path: envPath });
-
-// FALLBACK: Load from root project .env.local if available
-const rootEnvPath = join(__dirname, "..", "..", "..", ".env.local");
-dotenv.config({ path: rootEnvPath });
-
-// KEY MAPPING: If EVM_PRIVATE_KEY is missing but MERCHANT_PRIVATE_KEY exists (from root), use it.
-if (!process.env.EVM_PRIVATE_KEY && process.env.MERCHANT_PRIVATE_KEY) {
-  process.env.EVM_PRIVATE_KEY = process.env.MERCHANT_PRIVATE_KEY;
-  console.log("✅ Loaded EVM_PRIVATE_KEY from root .env.local (MERCHANT_PRIVATE_KEY)");
-}
-
-if (result.error) {
-  console.warn(`⚠️  Could not load .env file from ${envPath}`);
-  console.warn(`   Make sure you have created a .env file from env.template`);
-  console.warn(`   Error: ${result.error.message}`);
-}
+// Shared Synergy config (see src/config at the repo root). Env files, first wins:
+// the facilitator's own .env, then the root project's .env.local, whose
+// MERCHANT_PRIVATE_KEY stands in for a missing EVM_PRIVATE_KEY.
+const config = loadConfigOrExit({
+  envFiles: [join(__dirname, "..", ".env"), join(__dirname, "..", "..", "..", ".env.local")],
+  overrides: overridesFromArgv(),
+  require: ["facilitator.privateKey"],
+}, [
+  "",
+  "📝 To fix this:",
+  "   1. Copy env.template to .env:",
+  "      cp env.template .env",
+  "   2. Edit .env and add your private key:",
+  "      EVM_PRIVATE_KEY=0x...",
+  "",
+  "   Note: Make sure .env is in the facilitator directory",
+]);
 
 // Configuration
-const PORT = process.env.PORT || "4022";
-
-// Validate required environment variables
-if (!process.env.EVM_PRIVATE_KEY) {
-  console.error("❌ EVM_PRIVATE_KEY environment variable is required");
-  console.error("");
-  console.error("📝 To fix this:");
-  console.error("   1. Copy env.template to .env:");
-  console.error("      cp env.template .env");
-  console.error("   2. Edit .env and add your private key:");
-  console.error("      EVM_PRIVATE_KEY=0xYourPrivateKeyHere");
-  console.error("");
-  console.error("   Note: Make sure .env is in the facilitator directory");
-  process.exit(1);
-}
+const PORT = config.facilitator.port;
 
 // Initialize EVM account and signer
-const evmAccount = privateKeyToAccount(
-  process.env.EVM_PRIVATE_KEY as `0x${string}`,
-);
+const evmAccount = privateKeyToAccount(config.facilitator.privateKey!);
 console.info(`✅ EVM Facilitator account: ${evmAccount.address}`);
 
 // Create Viem client for EVM operations
-// For testnet, use baseSepolia instead of base
+// For testnet, use Base Sepolia instead of Base (chain and default RPC from the network registry)
 // Determine chain from RPC URL or use testnet by default
-const isTestnet = !process.env.EVM_RPC_URL?.includes("mainnet");
-const chain = isTestnet ? baseSepolia : base;
-const defaultRpcUrl = isTestnet ? "https://sepolia.base.org" : "https://mainnet.base.org";
+const isTestnet = !config.facilitator.rpcUrl?.includes("mainnet");
+const network = getNetwork(isTestnet ? "eip155:84532" : "eip155:8453");
 
 const viemClient = createWalletClient({
   account: evmAccount,
-  chain: chain,
-  transport: http(process.env.EVM_RPC_URL || defaultRpcUrl),
+  chain: network.chain,
+  transport: http(config.facilitator.rpcUrl || network.rpcUrl),
 }).extend(publicActions);
 
 // Create EVM facilitator signer
@@ -129,11 +109,11 @@ const bridgeService = new BridgeService({
 
 // Cross-chain bridging configuration
 // Set CROSS_CHAIN_ENABLED=false in .env to disable bridging (only settle on source chain)
-const CROSS_CHAIN_ENABLED = process.env.CROSS_CHAIN_ENABLED !== "false"; // Default to enabled
+const CROSS_CHAIN_ENABLED = config.facilitator.crossChainEnabled; // Default to enabled
 
 // Create EVM scheme instance (used by both exact and cross-chain)
 const evmScheme = new ExactEvmScheme(evmSigner, {
-  deployERC4337WithEIP6492: process.env.DEPLOY_ERC4337_WITH_EIP6492 === "true",
+  deployERC4337WithEIP6492: config.facilitator.deployERC4337WithEIP6492,
 });
 
 // Create cross-chain router (delegates to registered scheme facilitators)
@@ -325,14 +305,15 @@ const facilitator = new x402Facilitator()
 // Register standard EVM schemes (same-chain payments)
 registerExactEvmScheme(facilitator, {
   signer: evmSigner,
+  // Resolved through the network registry, so an unknown id fails at startup
   networks: [
     "eip155:8453", // Base Mainnet
     "eip155:84532", // Base Sepolia
     "eip155:1", // Ethereum Mainnet
     "eip155:11155111", // Ethereum Sepolia
     "eip155:137", // Polygon
-  ],
-  deployERC4337WithEIP6492: process.env.DEPLOY_ERC4337_WITH_EIP6492 === "true",
+  ].map((id) => getNetwork(id).id),
+  deployERC4337WithEIP6492: config.facilitator.deployERC4337WithEIP6492,
 });
 
 // Note: CrossChainRouter is NOT registered as a scheme
@@ -471,7 +452,7 @@ app.get("/health", (req, res) => {
 });
 
 // Start the server
-app.listen(parseInt(PORT), () => {
+app.listen(PORT, () => {
   console.log(`🚀 RailBridge Cross-Chain Facilitator listening on port ${PORT}`);
   console.log(`📡 Endpoints:`);
   console.log(`   POST /verify - Verify payment payloads`);
@@ -1,4 +1,3 @@
-import dotenv from "dotenv";
 import { fileURLToPath } from "url";
 import { dirname, join } from "path";
 import express from "express";
@@ -8,33 +7,29 @@ import { HTTPFacilitatorClient } from "@x402/core/http";
 import { registerExactEvmScheme } from "@x402/evm/exact/server";
 import { createPaywall } from "@x402/paywall";
 import { evmPaywall } from "@x402/paywall/evm";
+import { loadConfigOrExit, overridesFromArgv } from "../../../src/config/index.js";
+import { getNetwork } from "../../../src/x402/networks.js";
 
 // Get directory of current file (for ESM modules)
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-// Load environment variables from .env file in project root
-const envPath = join(__dirname, "..", ".env");
-dotenv.config({ path: envPath });
-
-// FALLBACK: Load from root project .env.local if available
-const rootEnvPath = join(__dirname, "..", "..", "..", ".env.local");
-dotenv.config({ path: rootEnvPath });
+// Shared Synergy config (see src/config at the repo root). Env files, first wins:
+// the facilitator directory's .env, then the root project's .env.local
+const config = loadConfigOrExit({
+  envFiles: [join(__dirname, "..", ".env"), join(__dirname, "..", "..", "..", ".env.local")],
+  overrides: overridesFromArgv(),
+  require: ["merchant.address"],
+});
 
 // ---------------------------------------------------------------------------
 // Merchant-side x402 server - Same-Chain Payments Only
 // This merchant only accepts payments on the same chain (no cross-chain)
 // ---------------------------------------------------------------------------
 
-// Required env vars for merchant
-const FACILITATOR_URL = process.env.FACILITATOR_URL || "http://localhost:4022";
-const MERCHANT_ADDRESS = process.env.MERCHANT_ADDRESS as `0x${string}` | undefined;
-
-if (!MERCHANT_ADDRESS) {
-  console.error("❌ MERCHANT_ADDRESS environment variable is required");
-  console.error("   This is where you want to receive payments");
-  process.exit(1);
-}
+// Required: merchant.address (MERCHANT_ADDRESS), where you want to receive payments
+const FACILITATOR_URL = config.facilitator.url;
+const MERCHANT_ADDRESS = config.merchant.address!;
 
 // Create HTTP client that talks to your RailBridge facilitator
 // This client communicates with the facilitator's /verify and /settle endpoints
@@ -53,12 +48,13 @@ const resourceServer = new x402ResourceServer(facilitatorClient);
 // - Build payment requirements for EVM networks
 // Register for specific networks to ensure validation passes
 registerExactEvmScheme(resourceServer, {
+  // Resolved through the network registry, so an unknown id fails at startup
   networks: [
     "eip155:84532", // Base Sepolia
     "eip155:8453",  // Base Mainnet
     "eip155:1",     // Ethereum Mainnet
     "eip155:137",   // Polygon
-  ],
+  ].map((id) => getNetwork(id).id),
 });
 
 // Define payment-protected routes for this merchant
@@ -161,9 +157,9 @@ app.get("/api/premium", (req, res) => {
   });
 });
 
-const PORT = process.env.MERCHANT_PORT || "4021";
+const PORT = config.merchant.port;
 
-app.listen(parseInt(PORT), () => {
+app.listen(PORT, () => {
   console.log(`🛒 Merchant server (same-chain only) listening at http://localhost:${PORT}`);
   console.log(`Using facilitator at: ${FACILITATOR_URL}`);
   console.log(`Merchant address: ${MERCHANT_ADDRESS}`);
@@ -1,4 +1,3 @@
-import dotenv from "dotenv";
 import { fileURLToPath } from "url";
 import { dirname, join } from "path";
 import express from "express";
@@ -14,32 +13,24 @@ import { registerExactEvmScheme } from "@x402/evm/exact/server";
 import { createPaywall } from "@x402/paywall";
 import { evmPaywall } from "@x402/paywall/evm";
 import type { AssetAmount } from "@x402/core/types";
+import { loadConfigOrExit, overridesFromArgv } from "../../../src/config/index.js";
+import { getNetwork, getToken, tokenPrice } from "../../../src/x402/networks.js";
 
 // Get directory of current file (for ESM modules)
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-// Load environment variables from .env file in project root
-const envPath = join(__dirname, "..", ".env");
-export const result = dotenv.config({ path: envPath });
-
-// FALLBACK: Load from root project .env.local if available
-const rootEnvPath = join(__dirname, "..", "..", "..", ".env.local");
-dotenv.config({ path: rootEnvPath });
-
-const FACILITATOR_URL = process.env.FACILITATOR_URL || "http://localhost:4022";
-const MERCHANT_ADDRESS = process.env.MERCHANT_ADDRESS as `0x${string}` | undefined;
-const FACILITATOR_ADDRESS = process.env.FACILITATOR_ADDRESS as `0x${string}` | undefined;
-
-if (!MERCHANT_ADDRESS) {
-  console.error("❌ MERCHANT_ADDRESS environment variable is required");
-  process.exit(1);
-}
+// Shared Synergy config (see src/config at the repo root). Env files, first wins:
+// the facilitator directory's .env, then the root project's .env.local
+const config = loadConfigOrExit({
+  envFiles: [join(__dirname, "..", ".env"), join(__dirname, "..", "..", "..", ".env.local")],
+  overrides: overridesFromArgv(),
+  require: ["merchant.address", "merchant.facilitatorAddress"],
+});
 
-if (!FACILITATOR_ADDRESS) {
-  console.error("❌ FACILITATOR_ADDRESS environment variable is required");
-  process.exit(1);
-}
+const FACILITATOR_URL = config.facilitator.url;
+const MERCHANT_ADDRESS = config.merchant.address!;
+const FACILITATOR_ADDRESS = config.merchant.facilitatorAddress!;
 
 // Create a wrapper around HTTPFacilitatorClient to add logging
 class LoggingFacilitatorClient extends HTTPFacilitatorClient {
@@ -143,13 +134,14 @@ resourceServer.onSettleFailure(async (context) => {
 });
 
 registerExactEvmScheme(resourceServer, {
+  // Resolved through the network registry, so an unknown id fails at startup
   networks: [
     "eip155:84532",
     "eip155:8453",
     "eip155:1",
     "eip155:11155111",
     "eip155:137",
-  ],
+  ].map((id) => getNetwork(id).id),
 });
 
 const routes = {
@@ -158,14 +150,7 @@ const routes = {
       {
         scheme: "exact" as const,
         network: "eip155:84532" as const,
-        price: {
-          asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
-          amount: "10000",
-          extra: {
-            name: "USDC",
-            version: "2",
-          },
-        } as AssetAmount,
+        price: tokenPrice("eip155:84532", "USDC", "10000") as AssetAmount, // 0.01 USDC
         payTo: FACILITATOR_ADDRESS,
         extra: {
           description: "Cross-chain payment: Pay on Base Sepolia, receive on Ethereum Sepolia",
@@ -177,7 +162,7 @@ const routes = {
     extensions: {
       [CROSS_CHAIN]: declareCrossChainExtension({
         destinationNetwork: "eip155:11155111",
-        destinationAsset: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238",
+        destinationAsset: getToken("eip155:11155111", "USDC").address,
         destinationPayTo: MERCHANT_ADDRESS,
       }),
     },
@@ -310,8 +295,8 @@ function startServer() {
     }
   });
 
-  const PORT = process.env.MERCHANT_PORT || "4021";
-  app.listen(parseInt(PORT), () => {
+  const PORT = config.merchant.port;
+  app.listen(PORT, () => {
     console.log(`🛒 Merchant server (cross-chain only) listening at http://localhost:${PORT}`);
     console.log(`Using facilitator at: ${FACILITATOR_URL}`);
     console.log(`Merchant address: ${MERCHANT_ADDRESS}`);
@@ -0,0 +1,106 @@
+import type { QuoteOption } from '../x402/quote';
+
+/**
+ * Payments waiting for a human, e.g. on the dashboard.
+ *
+ * The agent submits a payment it may not make on its own (over its approval
+ * threshold, or referred by its decider) and waits, before signing, until someone
+ * approves or denies it through decide(). A request nobody decides in time is
+ * denied, with "timeout" as the approver.
+ */
+
+export interface ApprovalRequest {
+    // Id of the paid request (the requestId of its payment events)
+    requestId: string;
+    url: string;
+    origin: string;
+    quote: QuoteOption;
+    // null when the asset cannot be priced
+    priceUsd: number | null;
+    // Why a human is asked
+    reason: string;
+    requestedAt: number;
+    expiresAt: number;
+}
+
+export interface HumanDecision {
+    approved: boolean;
+    // Who decided: a name, "timeout" or "aborted"
+    approver: string;
+    reason?: string;
+}
+
+interface Pending {
+    request: ApprovalRequest;
+    resolve(decision: HumanDecision): void;
+}
+
+export class ApprovalQueue {
+    readonly timeoutMs: number;
+    private waiting = new Map<string, Pending>();
+
+    /**
+     * @param options.timeoutMs - how long a request waits before it is denied (default 2 minutes)
+     */
+    constructor(options: { timeoutMs?: number } = {}) {
+        this.timeoutMs = options.timeoutMs ?? 120_000;
+    }
+
+    /**
+     * Queues a request. `decision` resolves once someone decides, on timeout, or when
+     * `signal` aborts (both deny).
+     */
+    submit(
+        request: Omit<ApprovalRequest, 'requestedAt' | 'expiresAt'>,
+        signal?: AbortSignal
+    ): { request: ApprovalRequest; decision: Promise<HumanDecision> } {
+        if (this.waiting.has(request.requestId)) {
+            throw new Error(`Approval for ${request.requestId} is already pending`);
+        }
+        const now = Date.now();
+        const queued: ApprovalRequest = { ...request, requestedAt: now, expiresAt: now + this.timeoutMs };
+
+        const decision = new Promise<HumanDecision>((resolve) => {
+            const timer = setTimeout(() => {
+                this.decide(queued.requestId, { approved: false, approver: 'timeout', reason: `no decision within ${Math.round(this.timeoutMs / 1000)}s` });
+            }, this.timeoutMs);
+            const onAbort = () => this.decide(queued.requestId, { approved: false, approver: 'aborted', reason: 'the run was aborted' });
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            this.waiting.set(queued.requestId, {
+                request: queued,
+                resolve: (d) => {
+                    clearTimeout(timer);
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve(d);
+                }
+            });
+        });
+
+        if (signal?.aborted) {
+            this.decide(queued.requestId, { approved: false, approver: 'aborted', reason: 'the run was aborted' });
+        }
+        return { request: queued, decision };
+    }
+
+    /**
+     * Approves or denies a pending request. False when it is not pending (unknown,
+     * already decided or expired).
+     */
+    decide(requestId: string, decision: HumanDecision): boolean {
+        const pending = this.waiting.get(requestId);
+        if (!pending) {
+            return false;
+        }
+        this.waiting.delete(requestId);
+        pending.resolve(decision);
+        return true;
+    }
+
+    /**
+     * Requests waiting for a decision, oldest first.
+     */
+    pending(): ApprovalRequest[] {
+        return [...this.waiting.values()].map(p => p.request);
+    }
+}
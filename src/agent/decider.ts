@@ -0,0 +1,131 @@
+import type { QuoteOption } from '../x402/quote';
+import type { PaymentLedger } from '../x402/ledger';
+import { priceInUsd } from '../x402/selection';
+import type { HumanDecision } from './approvals';
+
+/**
+ * Whether a price is worth paying, decided per payment before anything is signed.
+ *
+ * The agent asks its PaymentDecider once the merchant's option has been selected.
+ * 'skip' declines the payment (the task fails with PAYMENT_DECLINED); 'ask-human'
+ * refers it to the agent's human approver, and declines if there is none.
+ */
+
+export type PaymentAction = 'pay' | 'skip' | 'ask-human';
+
+export interface PaymentDecision {
+    action: PaymentAction;
+    reason: string;
+}
+
+export interface MerchantHistory {
+    // Settled payments to this origin in the ledger
+    payments: number;
+    spentUsd: number;
+    // USD price of the most recent settled payment, null if none could be priced
+    lastPaidUsd: number | null;
+}
+
+export interface PaymentDecisionInput {
+    url: string;
+    origin: string;
+    // The selected option, normalized (symbol, decimals, formatted amount)
+    quote: QuoteOption;
+    // null when the asset cannot be priced
+    priceUsd: number | null;
+    // What the task declared the result is worth (AgentTask.valueUsd)
+    taskValueUsd: number | null;
+    history: MerchantHistory;
+    // 0 (untrusted) to 1 (trusted); null when unknown
+    reputation: number | null;
+}
+
+export interface PaymentDecider {
+    readonly name: string;
+    decide(input: PaymentDecisionInput): Promise<PaymentDecision>;
+}
+
+// Looks up a merchant's reputation, e.g. from a registry or past disputes
+export type MerchantReputation = (origin: string) => Promise<number | null> | number | null;
+
+// Resolves true to pay, or to who decided what (recorded in the ledger)
+export type HumanApprover = (input: PaymentDecisionInput, decision: PaymentDecision) => Promise<boolean | HumanDecision>;
+
+export interface RuleDeciderOptions {
+    // Never pay more than this per payment (unpriceable payments are skipped while set)
+    maxPriceUsd?: number;
+    // Refer payments dearer than the last price paid to the same merchant by more than
+    // this fraction (0.25 = 25%)
+    maxPriceIncrease?: number;
+    // Merchant origins paid without asking; other merchants are referred
+    allowedMerchants?: string[];
+    // Skip merchants whose reputation is known and below this
+    minReputation?: number;
+    // What a referral means (default 'ask-human'; 'skip' for unattended agents)
+    onReferral?: 'ask-human' | 'skip';
+}
+
+/**
+ * Pays everything. What the agent does without a decider.
+ */
+export const alwaysPay: PaymentDecider = {
+    name: 'alwaysPay',
+    async decide() {
+        return { action: 'pay', reason: 'no rules configured' };
+    }
+};
+
+/**
+ * Hard limits (price ceiling, task value, reputation) skip; soft ones (unknown
+ * merchant, price increase) refer the payment. The first rule that trips decides.
+ */
+export function ruleBasedDecider(options: RuleDeciderOptions): PaymentDecider {
+    const allowed = options.allowedMerchants?.map(m => new URL(m).origin);
+    const referral = options.onReferral || 'ask-human';
+
+    return {
+        name: 'ruleBased',
+        async decide({ origin, priceUsd, taskValueUsd, history, reputation }) {
+            const price = priceUsd === null ? 'an unpriceable amount' : `$${priceUsd.toFixed(4)}`;
+
+            if (options.maxPriceUsd !== undefined && (priceUsd === null || priceUsd > options.maxPriceUsd)) {
+                return { action: 'skip', reason: `${price} is over the $${options.maxPriceUsd} ceiling` };
+            }
+            if (taskValueUsd !== null && priceUsd !== null && priceUsd > taskValueUsd) {
+                return { action: 'skip', reason: `${price} is more than the task is worth ($${taskValueUsd})` };
+            }
+            if (options.minReputation !== undefined && reputation !== null && reputation < options.minReputation) {
+                return { action: 'skip', reason: `merchant reputation ${reputation} is below ${options.minReputation}` };
+            }
+            if (allowed && !allowed.includes(origin)) {
+                return { action: referral, reason: `${origin} is not an allowed merchant` };
+            }
+            if (options.maxPriceIncrease !== undefined && history.lastPaidUsd !== null && priceUsd !== null &&
+                priceUsd > history.lastPaidUsd * (1 + options.maxPriceIncrease)) {
+                const rise = Math.round((priceUsd / history.lastPaidUsd - 1) * 100);
+                return { action: referral, reason: `${price} is ${rise}% above the last price paid ($${history.lastPaidUsd.toFixed(4)})` };
+            }
+            return { action: 'pay', reason: `${price} is within the rules` };
+        }
+    };
+}
+
+export function createPaymentDecider(config?: PaymentDecider | RuleDeciderOptions): PaymentDecider {
+    if (!config) {
+        return alwaysPay;
+    }
+    return 'decide' in config ? config : ruleBasedDecider(config);
+}
+
+/**
+ * Settled payments to `origin`, from the ledger.
+ */
+export function merchantHistory(ledger: PaymentLedger, origin: string): MerchantHistory {
+    const paid = ledger.byMerchant(origin).filter(e => e.status === 'settled' || e.status === 'confirmed');
+    const last = paid[paid.length - 1];
+    return {
+        payments: paid.length,
+        spentUsd: paid.reduce((sum, e) => sum + (priceInUsd(e.requirements) ?? 0), 0),
+        lastPaidUsd: last ? priceInUsd(last.requirements) : null
+    };
+}
@@ -0,0 +1,165 @@
+import path from 'path';
+import type { PaymentEvent } from '../x402/events';
+import { withDeadline } from '../x402/abort';
+import { TransactionalAgent, AgentConfig } from './index';
+import { AgentTask, RunReport } from './tasks';
+
+/**
+ * Many independent buyers at once, e.g. to load-test a merchant.
+ *
+ * Every agent in a fleet has its own signer (no two may share a wallet address),
+ * its own budget, task list, payment ledger and pinned payees; by default their
+ * files live in <dataDir>/<name>/. run() runs the agents' tasks concurrently, at most
+ * `concurrency` agents at a time, and adds up what they spent.
+ */
+
+export interface FleetOptions {
+    // Agents running at the same time (default 4)
+    concurrency?: number;
+    // Default home of each agent's spend.json and payments.jsonl (default .synergy/fleet)
+    dataDir?: string;
+}
+
+export interface FleetAgentReport {
+    name: string;
+    address: string;
+    // null when run() threw (a task with onFailure 'throw', or an abort before the report)
+    report: RunReport | null;
+    error: string | null;
+    totalUsd: number;
+}
+
+export interface FleetReport {
+    // Every agent ran and all of its tasks succeeded
+    ok: boolean;
+    agents: FleetAgentReport[];
+    totalUsd: number;
+    // Merchant origin -> USD paid to it by the whole fleet
+    byMerchant: Record<string, number>;
+    payments: number;
+    startedAt: number;
+    finishedAt: number;
+}
+
+export interface FleetRunOptions {
+    // Only these agents (default: all, in the order they were added)
+    names?: string[];
+    // Instead of each agent's configured tasks
+    tasks?: AgentTask[];
+    signal?: AbortSignal;
+    // Deadline for the whole fleet run
+    timeoutMs?: number;
+    log?: (name: string, msg: string) => void;
+    onEvent?: (name: string, event: PaymentEvent) => void;
+}
+
+export class AgentFleet {
+    private agents = new Map<string, TransactionalAgent>();
+    private concurrency: number;
+    private dataDir: string;
+
+    constructor(options: FleetOptions = {}) {
+        this.concurrency = Math.max(1, Math.floor(options.concurrency ?? 4));
+        this.dataDir = options.dataDir || path.join('.synergy', 'fleet');
+    }
+
+    /**
+     * Creates a named agent. Its budget, ledger and payees files default to <dataDir>/<name>/.
+     * Throws on a duplicate name or a signer another agent already uses.
+     */
+    add(name: string, config: AgentConfig): TransactionalAgent {
+        if (!/^[\w.-]+$/.test(name)) {
+            throw new Error(`Invalid agent name "${name}": use letters, digits, '.', '-' and '_'`);
+        }
+        if (this.agents.has(name)) {
+            throw new Error(`Agent "${name}" already exists in the fleet`);
+        }
+
+        const dir = path.join(this.dataDir, name);
+        const agent = new TransactionalAgent({
+            ...config,
+            budgetFile: config.budgetFile || path.join(dir, 'spend.json'),
+            ledgerFile: config.ledgerFile || path.join(dir, 'payments.jsonl'),
+            payeesFile: config.payeesFile || path.join(dir, 'payees.json')
+        });
+
+        const twin = [...this.agents].find(([, other]) => other.address.toLowerCase() === agent.address.toLowerCase());
+        if (twin) {
+            throw new Error(`Agent "${name}" uses the same wallet (${agent.address}) as "${twin[0]}"`);
+        }
+        this.agents.set(name, agent);
+        return agent;
+    }
+
+    get(name: string): TransactionalAgent {
+        const agent = this.agents.get(name);
+        if (!agent) {
+            throw new Error(`No agent "${name}" in the fleet`);
+        }
+        return agent;
+    }
+
+    names(): string[] {
+        return [...this.agents.keys()];
+    }
+
+    get size(): number {
+        return this.agents.size;
+    }
+
+    /**
+     * Runs the agents concurrently (see FleetOptions.concurrency). Never throws for a
+     * failing agent: its error is in its report and the others carry on.
+     */
+    async run(options: FleetRunOptions = {}): Promise<FleetReport> {
+        const names = options.names || this.names();
+        const agents = names.map(name => ({ name, agent: this.get(name) }));
+        const signal = withDeadline(options.signal, options.timeoutMs);
+        const startedAt = Date.now();
+
+        const reports = await mapConcurrently(agents, this.concurrency, async ({ name, agent }): Promise<FleetAgentReport> => {
+            try {
+                const report = await agent.run(
+                    (msg) => options.log?.(name, msg),
+                    { signal, tasks: options.tasks, onEvent: options.onEvent && ((event) => options.onEvent!(name, event)) }
+                );
+                return { name, address: agent.address, report, error: null, totalUsd: report.totalUsd };
+            } catch (e: any) {
+                return { name, address: agent.address, report: null, error: e?.message || String(e), totalUsd: 0 };
+            }
+        });
+
+        const byMerchant: Record<string, number> = {};
+        let payments = 0;
+        for (const outcome of reports.flatMap(r => r.report?.tasks ?? [])) {
+            if (!outcome.cost) continue;
+            payments++;
+            const origin = new URL(outcome.url).origin;
+            byMerchant[origin] = (byMerchant[origin] ?? 0) + (outcome.cost.usd ?? 0);
+        }
+
+        return {
+            ok: reports.every(r => r.report?.ok === true),
+            agents: reports,
+            totalUsd: reports.reduce((sum, r) => sum + r.totalUsd, 0),
+            byMerchant,
+            payments,
+            startedAt,
+            finishedAt: Date.now()
+        };
+    }
+}
+
+// Results in input order, with at most `limit` calls in flight
+async function mapConcurrently<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const i = next++;
+            results[i] = await fn(items[i]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+}
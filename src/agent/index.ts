@@ -1,15 +1,104 @@
 
-import { RealWallet, X402Client } from '../x402/client';
+import { erc20Abi, formatUnits } from 'viem';
+import type { PaymentRequirements } from '@x402/core/types';
+import { RealWallet, ChainClients, X402Client, X402Error, MerchantError, PaymentQuote, PaymentEvent, PaymentEventEmitter, PaymentApproval } from '../x402/client';
 import { MockMicropayService, MicropayService } from '../micropay/service';
+import { PaymentSelectionPolicy, SelectionConfig, createSelectionPolicy, composePolicies, maxPrice, priceInUsd } from '../x402/selection';
+import { BudgetGuard, BudgetLimits, FileBudgetStore } from '../x402/budget';
+import { RpcUrlMap, getNetwork } from '../x402/networks';
+import { BalanceCheckOptions } from '../x402/balance';
+import { SigningPolicyOptions } from '../x402/signingPolicy';
+import { MerchantPolicy, MerchantPolicyOptions, FilePayeeStore } from '../x402/merchantPolicy';
+import { Signer } from '../x402/signers';
+import { RetryOptions } from '../x402/retry';
+import { PaymentLedger, JsonlLedgerStore, LedgerEntry } from '../x402/ledger';
+import { confirmReceiptOnChain } from '../x402/receipt';
+import { withDeadline } from '../x402/abort';
+import {
+    PaymentDecider, RuleDeciderOptions, MerchantReputation, HumanApprover, PaymentDecisionInput,
+    alwaysPay, createPaymentDecider, merchantHistory
+} from './decider';
+import { ApprovalQueue, HumanDecision } from './approvals';
+import { AgentTask, RunReport, TaskOutcome, DEFAULT_TASKS, taskName, checkResponseSchema } from './tasks';
+
+export * from './tasks';
+export * from './workflow';
+export * from './decider';
+export * from './approvals';
+export * from './fleet';
 
 export interface AgentConfig {
+    // Keystore, remote or raw-key signer (see x402/signers); takes precedence over privateKey
+    signer?: Signer;
     privateKey?: string;
     rpcUrl?: string;
+    // CAIP-2 id of the wallet's default network (Base Sepolia if omitted)
+    network?: string;
+    // CAIP-2 id -> RPC URL for the networks the agent may pay on
+    rpcUrls?: RpcUrlMap;
     useRealWallet: boolean;
+    // Which payment option to pay with, e.g. [{ strategy: 'allowlist', networks: [...] }, { strategy: 'cheapestUsd' }]
+    selection?: SelectionConfig | SelectionConfig[] | PaymentSelectionPolicy;
+    budget?: BudgetLimits;
+    // Where running spend totals are kept (default: .synergy/spend.json)
+    budgetFile?: string;
+    // Pre-flight balance check before signing (on unless false)
+    balanceCheck?: BalanceCheckOptions | false;
+    // Limits on what the agent's key will sign
+    signingPolicy?: SigningPolicyOptions;
+    // Backoff for resending a signed payment to a flaky merchant (false disables)
+    retry?: RetryOptions | false;
+    // Where every payment is recorded (default: .synergy/payments.jsonl)
+    ledgerFile?: string;
+    // Merchant origins the agent may call and payTo addresses it may pay, e.g.
+    // { allowedOrigins: ['https://*.example.com'], onPayToChange: 'block' }
+    merchantPolicy?: MerchantPolicyOptions;
+    // Where each merchant's payTo is pinned (default: .synergy/payees.json)
+    payeesFile?: string;
+    // Paid calls run() makes, in order (default: GET http://localhost:4021/api/premium)
+    tasks?: AgentTask[];
+    // Whether each price is worth paying (see ./decider); without one the agent pays any price
+    decider?: PaymentDecider | RuleDeciderOptions;
+    reputation?: MerchantReputation;
+    // Payments above this many USD (or that cannot be priced) need a human's approval
+    approvalThresholdUsd?: number;
+    // Where payments needing approval wait for a human (e.g. the dashboard); takes precedence over askHuman
+    approvals?: ApprovalQueue;
+    // Decides the payments the decider refers to a human; without it or `approvals` they are declined
+    askHuman?: HumanApprover;
+}
+
+export interface TokenBalance {
+    symbol: string;
+    decimals: number;
+    // Base units
+    amount: string;
+    formatted: string;
+}
+
+export interface WalletBalance {
+    address: string;
+    network: string;
+    native: TokenBalance;
+    // Set when an asset was asked for
+    token: (TokenBalance & { asset: string }) | null;
 }
 
 export class TransactionalAgent {
     private wallet: RealWallet;
+    private selectionPolicy: PaymentSelectionPolicy;
+    private budget?: BudgetGuard;
+    private balanceCheck?: BalanceCheckOptions | false;
+    private signingPolicy?: SigningPolicyOptions;
+    private retry?: RetryOptions | false;
+    private merchantPolicy?: MerchantPolicy;
+    public readonly ledger: PaymentLedger;
+    private tasks: AgentTask[];
+    private decider?: PaymentDecider;
+    private reputation?: MerchantReputation;
+    private askHuman?: HumanApprover;
+    private approvals?: ApprovalQueue;
+    private approvalThresholdUsd?: number;
     // private micropay: MicropayService; 
 
     constructor(config: AgentConfig) {
@@ -17,22 +106,54 @@ export class TransactionalAgent {
         // this.micropay = new MockMicropayService();
 
         // Initialize Wallet
-        if (config.useRealWallet && config.privateKey) {
-            console.log("[Agent] 🔐 Initializing Real Wallet...");
-            let pk = config.privateKey.trim();
-            // Prefix check is handled inside RealWallet now, but safe to keep or remove.
-            // keeping it simple.
-            this.wallet = new RealWallet(pk, config.rpcUrl);
+        const signer = config.signer || config.privateKey?.trim();
+        if (config.useRealWallet && signer) {
+            console.log(`[Agent] 🔐 Initializing Real Wallet (${typeof signer === 'string' ? 'raw-key' : signer.kind} signer)...`);
+            this.wallet = new RealWallet(signer, config.rpcUrl, {
+                network: config.network,
+                rpcUrls: config.rpcUrls
+            });
         } else {
             console.log("[Agent] ⚠️ Real Wallet required for RailBridge Integration.");
             throw new Error("Real Wallet required for RailBridge Integration");
         }
+
+        this.selectionPolicy = createSelectionPolicy(config.selection);
+        if (config.budget) {
+            this.budget = new BudgetGuard(config.budget, new FileBudgetStore(config.budgetFile));
+        }
+        this.balanceCheck = config.balanceCheck;
+        this.signingPolicy = config.signingPolicy;
+        this.retry = config.retry;
+        if (config.merchantPolicy) {
+            this.merchantPolicy = new MerchantPolicy(config.merchantPolicy, new FilePayeeStore(config.payeesFile));
+        }
+        this.ledger = new PaymentLedger(new JsonlLedgerStore(config.ledgerFile));
+        this.tasks = config.tasks || DEFAULT_TASKS;
+        this.decider = config.decider && createPaymentDecider(config.decider);
+        this.reputation = config.reputation;
+        this.askHuman = config.askHuman;
+        this.approvals = config.approvals;
+        this.approvalThresholdUsd = config.approvalThresholdUsd;
+    }
+
+    // The agent's wallet address
+    get address(): `0x${string}` {
+        return this.wallet.address;
     }
 
     /**
-     * Executes the main agent workflow: Check -> Pay
+     * Runs the tasks in order (the configured ones unless options.tasks is given)
+     * and reports what each one returned and cost. A failed task stops, continues
+     * or throws according to its onFailure.
+     * @param options.signal - aborts the run (e.g. when the dashboard disconnects)
+     * @param options.timeoutMs - total deadline for the run
+     * @param options.onEvent - structured payment events (see x402/events)
      */
-    async run(logCallback?: (msg: string) => void) {
+    async run(
+        logCallback?: (msg: string) => void,
+        options: { signal?: AbortSignal; timeoutMs?: number; onEvent?: (event: PaymentEvent) => void; tasks?: AgentTask[] } = {}
+    ): Promise<RunReport> {
         const log = (msg: string) => {
             console.log(msg); // Keep server console log
             if (logCallback) logCallback(msg);
@@ -42,40 +163,324 @@ export class TransactionalAgent {
         log("🤖 Synergy Agent Starting (RailBridge x402 Mode)...");
         log("-----------------------------------------");
 
-        // 1. Initialize X402 Client
-        // Pointing to RailBridge Merchant Server on Port 4021
-        const merchantUrl = "http://localhost:4021";
-        const x402 = new X402Client(merchantUrl, this.wallet, log);
+        const tasks = options.tasks || this.tasks;
+        const signal = withDeadline(options.signal, options.timeoutMs);
+        // One event stream for the whole run, whichever client a task uses
+        const events = new PaymentEventEmitter();
+        if (options.onEvent) {
+            events.onAny(options.onEvent);
+        }
 
-        // 2. Execution Loop
-        try {
-            log(`[Agent] 🎯 Task: Access Premium Content at ${merchantUrl}/api/premium`);
-            log(`[Agent] 🚀 Sending GET request...`);
+        const startedAt = Date.now();
+        const outcomes: TaskOutcome[] = [];
+        let stopped = false;
+
+        for (const task of tasks) {
+            if (stopped || signal?.aborted) {
+                outcomes.push(skippedTask(task));
+                continue;
+            }
+
+            const { outcome, error } = await this.runTask(task, { log, events, signal });
+            outcomes.push(outcome);
+
+            if (outcome.status === 'failed') {
+                const action = task.onFailure || 'stop';
+                if (action === 'throw') {
+                    throw error;
+                }
+                stopped = action === 'stop';
+            }
+        }
 
-            // This single line triggers the entire 402 negotiation flow
-            const response = await x402.get("/api/premium");
+        const report: RunReport = {
+            ok: outcomes.every(o => o.status === 'succeeded'),
+            tasks: outcomes,
+            totalUsd: outcomes.reduce((sum, o) => sum + (o.cost?.usd ?? 0), 0),
+            startedAt,
+            finishedAt: Date.now()
+        };
+
+        const succeeded = outcomes.filter(o => o.status === 'succeeded').length;
+        log("-----------------------------------------");
+        log(report.ok ? "✅ AGENT SUCCESS" : "❌ AGENT FAILED");
+        log(`[Agent] 📊 ${succeeded}/${outcomes.length} tasks succeeded, spent $${report.totalUsd.toFixed(4)}`);
+        log("-----------------------------------------");
+        return report;
+    }
+
+    /**
+     * Runs one task. Never throws: a failure is in the outcome, with the original error.
+     */
+    async runTask(
+        task: AgentTask,
+        options: { log?: (msg: string) => void; events?: PaymentEventEmitter; signal?: AbortSignal } = {}
+    ): Promise<{ outcome: TaskOutcome; error?: unknown }> {
+        const { log = (msg: string) => console.log(msg), events = new PaymentEventEmitter(), signal } = options;
+        const method = task.method || 'GET';
+        const outcome: TaskOutcome = {
+            name: taskName(task),
+            method,
+            url: task.url,
+            status: 'failed',
+            httpStatus: null,
+            data: null,
+            cost: null,
+            receipt: null,
+            error: null,
+            startedAt: Date.now(),
+            finishedAt: 0
+        };
 
-            log("-----------------------------------------");
-            log("✅ AGENT SUCCESS");
-            log(`[HTTP ${response.status}] 🟢 Content Access Granted`);
+        const x402 = new X402Client('', this.wallet, log, {
+            selectionPolicy: task.maxPriceUsd === undefined
+                ? this.selectionPolicy
+                : composePolicies(maxPrice(task.maxPriceUsd), this.selectionPolicy),
+            budget: this.budget,
+            balanceCheck: this.balanceCheck,
+            signingPolicy: this.signingPolicy,
+            retry: this.retry,
+            events,
+            ledger: this.ledger,
+            merchantPolicy: this.merchantPolicy,
+            approvePayment: (this.decider || this.approvalThresholdUsd !== undefined)
+                ? (payment) => this.decide(payment, task, { log, events, signal })
+                : undefined
+        });
 
-            if (response.data && typeof response.data === 'object') {
-                log(`Content Accessed: "${response.data.message}"`);
-                log(`Data: ${JSON.stringify(response.data.data)}`);
+        // What was actually sent, for the cost; a retry resends the same payment.
+        // It only costs once settled, or possibly settled: not when the merchant refused it.
+        const sent: { requirements?: PaymentRequirements; spent: boolean } = { spent: false };
+        const unsubscribers = [
+            events.on('paymentSent', (e) => {
+                sent.requirements = e.requirements;
+            }),
+            events.on('settled', () => {
+                sent.spent = true;
+            }),
+            events.on('failed', (e) => {
+                sent.spent = e.possiblySettled;
+            })
+        ];
+
+        let error: unknown;
+        try {
+            log(`[Agent] 🎯 Task: ${outcome.name}`);
+            log(`[Agent] 🚀 Sending ${method} request to ${task.url}...`);
+
+            // This single call triggers the entire 402 negotiation flow
+            const response = await x402.request(method, task.url, {
+                headers: task.headers,
+                body: task.body,
+                signal,
+                timeoutMs: task.timeoutMs
+            });
+            outcome.httpStatus = response.status;
+            outcome.data = response.data;
+            outcome.receipt = response.receipt;
+
+            const mismatch = task.expect ? checkResponseSchema(task.expect, response.data) : null;
+            if (mismatch) {
+                error = new Error(`Unexpected response: ${mismatch}`);
+                outcome.error = { code: 'SCHEMA_MISMATCH', message: mismatch };
+                log(`[Agent] ❌ ${outcome.name}: response does not match the expected schema (${mismatch})`);
             } else {
-                log(`Data: ${response.data}`);
+                outcome.status = 'succeeded';
+                log(`[HTTP ${response.status}] 🟢 Content Access Granted`);
+                if (response.data && typeof response.data === 'object') {
+                    log(`Content Accessed: "${response.data.message}"`);
+                    log(`Data: ${JSON.stringify(response.data.data)}`);
+                } else {
+                    log(`Data: ${response.data}`);
+                }
             }
 
-            log("-----------------------------------------");
-            return "SUCCESS";
-        } catch (error: any) {
-            log(`[Agent] ❌ Agent Failed: ${error.message}`);
-            if (error.response) {
-                log(`[Agent] Status: ${error.response.status}`);
-                log(`[Agent] Data: ${JSON.stringify(error.response.data)}`);
+            if (response.receipt) {
+                log(`[Agent] 🧾 Paid ${response.receipt.amount} on ${response.receipt.network} (tx ${response.receipt.transaction})`);
+            }
+        } catch (e: any) {
+            error = e;
+            outcome.error = { code: e instanceof X402Error ? e.code : 'UNKNOWN', message: e.message };
+            log(`[Agent] ❌ Task Failed: ${e.message}`);
+            if (e instanceof X402Error) {
+                log(`[Agent] Failure: ${e.code} (${e.side} side)`);
             }
-            throw error;
+            if (e instanceof MerchantError) {
+                outcome.httpStatus = e.status;
+                log(`[Agent] Status: ${e.status}`);
+                log(`[Agent] Data: ${JSON.stringify(e.body)}`);
+            }
+        } finally {
+            unsubscribers.forEach(unsubscribe => unsubscribe());
+            outcome.finishedAt = Date.now();
+        }
+
+        if (sent.requirements && sent.spent) {
+            outcome.cost = {
+                network: sent.requirements.network,
+                asset: sent.requirements.asset,
+                amount: sent.requirements.amount,
+                usd: priceInUsd(sent.requirements)
+            };
+        }
+        return { outcome, error };
+    }
+
+    /**
+     * Asks the decider about one payment, then a human if the decider refers it or
+     * the price is over the approval threshold. Resolves to null to pay, or to the
+     * reason not to. Human decisions are emitted as events (and so recorded in the ledger).
+     */
+    private async decide(
+        payment: PaymentApproval,
+        task: AgentTask,
+        { log, events, signal }: { log: (msg: string) => void; events: PaymentEventEmitter; signal?: AbortSignal }
+    ): Promise<string | null> {
+        const decider = this.decider || alwaysPay;
+        const priceUsd = priceInUsd(payment.option.requirements);
+        const input: PaymentDecisionInput = {
+            url: payment.url,
+            origin: payment.origin,
+            quote: payment.option,
+            priceUsd,
+            taskValueUsd: task.valueUsd ?? null,
+            history: merchantHistory(this.ledger, payment.origin),
+            reputation: this.reputation ? await this.reputation(payment.origin) : null
+        };
+
+        let decision = await decider.decide(input);
+        if (this.decider) {
+            log(`[Agent] 🤔 ${decider.name}: ${decision.action} - ${decision.reason}`);
+        }
+        const threshold = this.approvalThresholdUsd;
+        if (decision.action === 'pay' && threshold !== undefined && (priceUsd === null || priceUsd > threshold)) {
+            const price = priceUsd === null ? 'an unpriceable amount' : `$${priceUsd.toFixed(4)}`;
+            decision = { action: 'ask-human', reason: `${price} is over the $${threshold} approval threshold` };
+        }
+        if (decision.action === 'pay') {
+            return null;
+        }
+        if (decision.action === 'skip') {
+            return decision.reason;
+        }
+        if (!this.approvals && !this.askHuman) {
+            return `${decision.reason} (needs human approval, none configured)`;
+        }
+
+        const base = { requestId: payment.requestId, url: payment.url };
+        const option = payment.option.requirements;
+        let human: HumanDecision;
+        if (this.approvals) {
+            const { request, decision: pending } = this.approvals.submit({
+                requestId: payment.requestId, url: payment.url, origin: payment.origin,
+                quote: payment.option, priceUsd, reason: decision.reason
+            }, signal);
+            log(`[Agent] 🙋 Waiting up to ${Math.round(this.approvals.timeoutMs / 1000)}s for a human to approve ${payment.url}...`);
+            events.emit('approvalRequested', base, { option, priceUsd, reason: decision.reason, expiresAt: request.expiresAt });
+            human = await pending;
+        } else {
+            log(`[Agent] 🙋 Asking a human to approve ${payment.url}...`);
+            events.emit('approvalRequested', base, { option, priceUsd, reason: decision.reason, expiresAt: null });
+            const answer = await this.askHuman!(input, decision);
+            human = typeof answer === 'boolean' ? { approved: answer, approver: 'a human' } : answer;
+        }
+
+        events.emit('approvalDecided', base, { option, approved: human.approved, approver: human.approver, reason: human.reason ?? null });
+        log(`[Agent] ${human.approved ? '👍 Approved' : '👎 Denied'} by ${human.approver}`);
+        return human.approved ? null : `${decision.reason} (denied by ${human.approver})`;
+    }
+
+    /**
+     * Native balance of the agent's wallet, and its balance of `asset` if given.
+     * @param options.network - CAIP-2 id (default: the wallet's network)
+     */
+    async balance(options: { network?: string; asset?: string } = {}): Promise<WalletBalance> {
+        const network = options.network || this.wallet.network;
+        const client = this.wallet.clientFor(network);
+        const address = this.wallet.address;
+        const { symbol, decimals } = getNetwork(network).nativeCurrency;
+
+        const native = await client.getBalance({ address });
+        const result: WalletBalance = {
+            address,
+            network,
+            native: { symbol, decimals, amount: native.toString(), formatted: formatUnits(native, decimals) },
+            token: null
+        };
+
+        if (options.asset) {
+            // viem asks for authorizationList outside strict mode; plain reads have none
+            const token = { address: options.asset as `0x${string}`, abi: erc20Abi, authorizationList: undefined } as const;
+            const [amount, tokenSymbol, tokenDecimals] = await Promise.all([
+                client.readContract({ ...token, functionName: 'balanceOf', args: [address] }),
+                client.readContract({ ...token, functionName: 'symbol' }),
+                client.readContract({ ...token, functionName: 'decimals' })
+            ]);
+            result.token = {
+                asset: options.asset,
+                symbol: tokenSymbol,
+                decimals: tokenDecimals,
+                amount: amount.toString(),
+                formatted: formatUnits(amount, tokenDecimals)
+            };
         }
+        return result;
+    }
+
+    /**
+     * Finds a payment by its settlement transaction and checks the Transfer on-chain,
+     * marking the ledger entry confirmed when it is there.
+     */
+    async confirmPayment(transaction: string): Promise<{ entry: LedgerEntry; verifiedOnChain: boolean }> {
+        return confirmLedgerPayment(this.ledger, this.wallet, transaction);
+    }
 
+    /**
+     * Prices a paid endpoint without paying (see X402Client.quote).
+     */
+    async quote(url: string, logCallback?: (msg: string) => void): Promise<PaymentQuote> {
+        const x402 = new X402Client('', this.wallet, logCallback || (() => { }), {
+            selectionPolicy: this.selectionPolicy,
+            merchantPolicy: this.merchantPolicy
+        });
+        return x402.quote(url);
+    }
+}
+
+/**
+ * TransactionalAgent.confirmPayment without an agent: only needs the ledger and
+ * public clients, so no signer.
+ */
+export async function confirmLedgerPayment(
+    ledger: PaymentLedger,
+    chains: Pick<ChainClients, 'clientFor'>,
+    transaction: string
+): Promise<{ entry: LedgerEntry; verifiedOnChain: boolean }> {
+    const entry = ledger.byTransaction(transaction);
+    if (!entry?.receipt) {
+        throw new Error(`No payment with transaction ${transaction} in the ledger`);
     }
+
+    const verifiedOnChain = await confirmReceiptOnChain(chains.clientFor(entry.receipt.network), entry.receipt);
+    if (verifiedOnChain && entry.status !== 'confirmed') {
+        ledger.update(entry.id, { status: 'confirmed', receipt: { ...entry.receipt, verifiedOnChain } });
+    }
+    return { entry: ledger.get(entry.id)!, verifiedOnChain };
+}
+
+function skippedTask(task: AgentTask): TaskOutcome {
+    const now = Date.now();
+    return {
+        name: taskName(task),
+        method: task.method || 'GET',
+        url: task.url,
+        status: 'skipped',
+        httpStatus: null,
+        data: null,
+        cost: null,
+        receipt: null,
+        error: null,
+        startedAt: now,
+        finishedAt: now
+    };
 }
@@ -0,0 +1,180 @@
+import { HTTP_METHODS, HttpMethod } from '../x402/client';
+import type { PaymentReceipt } from '../x402/receipt';
+import type { X402ErrorCode } from '../x402/errors';
+
+/**
+ * What TransactionalAgent.run() does: a list of paid API calls, and the report it
+ * returns for them.
+ */
+
+/**
+ * Minimal JSON shape check for paid responses.
+ */
+export type ResponseSchema =
+    | { type: 'string' | 'number' | 'boolean' | 'null' | 'any' }
+    | { type: 'object'; properties?: Record<string, ResponseSchema>; required?: string[] }
+    | { type: 'array'; items?: ResponseSchema };
+
+// 'stop' skips the remaining tasks, 'continue' runs them, 'throw' rejects run() with the error
+export type TaskFailureAction = 'stop' | 'continue' | 'throw';
+
+export interface AgentTask {
+    // Used in logs and the report (default: "METHOD url")
+    name?: string;
+    url: string;
+    method?: HttpMethod;
+    headers?: Record<string, string>;
+    body?: unknown;
+    // Highest price we accept, in USD; dearer or unpriceable options are never signed
+    maxPriceUsd?: number;
+    // What the result is worth to us, in USD; the payment decider skips dearer calls
+    valueUsd?: number;
+    // Shape the response must have. Checked after paying, so a mismatch still costs.
+    expect?: ResponseSchema;
+    // Default 'stop'
+    onFailure?: TaskFailureAction;
+    timeoutMs?: number;
+}
+
+export type TaskStatus = 'succeeded' | 'failed' | 'skipped';
+
+export interface TaskCost {
+    network: string;
+    asset: string;
+    // Base units
+    amount: string;
+    // null when the asset cannot be priced
+    usd: number | null;
+}
+
+export interface TaskOutcome {
+    name: string;
+    method: HttpMethod;
+    url: string;
+    status: TaskStatus;
+    httpStatus: number | null;
+    data: any;
+    // Set once a signed payment settled or may have settled (no answer, abort, 5xx),
+    // even if the task then failed; not when the merchant refused the payment
+    cost: TaskCost | null;
+    receipt: PaymentReceipt | null;
+    error: { code: X402ErrorCode | 'SCHEMA_MISMATCH' | 'UNKNOWN'; message: string } | null;
+    startedAt: number;
+    finishedAt: number;
+}
+
+export interface RunReport {
+    // Every task succeeded
+    ok: boolean;
+    tasks: TaskOutcome[];
+    // Sum of the priced task costs
+    totalUsd: number;
+    startedAt: number;
+    finishedAt: number;
+}
+
+// What run() did before tasks were configurable
+export const DEFAULT_TASKS: AgentTask[] = [
+    { name: 'premium', url: 'http://localhost:4021/api/premium' }
+];
+
+export function taskName(task: AgentTask): string {
+    return task.name || `${task.method || 'GET'} ${task.url}`;
+}
+
+const FAILURE_ACTIONS: TaskFailureAction[] = ['stop', 'continue', 'throw'];
+
+/**
+ * Checks a task list read from JSON (e.g. the CLI's --tasks file). Returns what
+ * is wrong with it, or null if it is a usable AgentTask[].
+ */
+export function checkTasks(value: unknown): string | null {
+    if (!Array.isArray(value)) {
+        return `tasks: expected array, got ${describe(value)}`;
+    }
+    for (let i = 0; i < value.length; i++) {
+        const problem = checkTask(value[i], `tasks[${i}]`);
+        if (problem) return problem;
+    }
+    return null;
+}
+
+function checkTask(task: any, at: string): string | null {
+    if (task === null || typeof task !== 'object' || Array.isArray(task)) {
+        return `${at}: expected object, got ${describe(task)}`;
+    }
+    if (typeof task.url !== 'string' || !task.url) {
+        return `${at}.url: expected a URL string`;
+    }
+    if (task.name !== undefined && typeof task.name !== 'string') {
+        return `${at}.name: expected string, got ${describe(task.name)}`;
+    }
+    if (task.method !== undefined && !HTTP_METHODS.includes(task.method)) {
+        return `${at}.method: expected one of ${HTTP_METHODS.join(', ')}`;
+    }
+    if (task.headers !== undefined && (task.headers === null || typeof task.headers !== 'object' || Array.isArray(task.headers) ||
+        Object.values(task.headers).some(v => typeof v !== 'string'))) {
+        return `${at}.headers: expected an object of strings`;
+    }
+    for (const key of ['maxPriceUsd', 'valueUsd', 'timeoutMs']) {
+        const n = task[key];
+        if (n !== undefined && (typeof n !== 'number' || !Number.isFinite(n) || n < 0)) {
+            return `${at}.${key}: expected a non-negative number`;
+        }
+    }
+    if (task.onFailure !== undefined && !FAILURE_ACTIONS.includes(task.onFailure)) {
+        return `${at}.onFailure: expected one of ${FAILURE_ACTIONS.join(', ')}`;
+    }
+    if (task.expect !== undefined && (task.expect === null || typeof task.expect !== 'object' || typeof task.expect.type !== 'string')) {
+        return `${at}.expect: expected a response schema`;
+    }
+    return null;
+}
+
+/**
+ * Returns what is wrong with `value`, or null if it matches.
+ */
+export function checkResponseSchema(schema: ResponseSchema, value: any, at = '$'): string | null {
+    switch (schema.type) {
+        case 'any':
+            return null;
+        case 'null':
+            return value === null ? null : `${at}: expected null`;
+        case 'string':
+        case 'number':
+        case 'boolean':
+            return typeof value === schema.type ? null : `${at}: expected ${schema.type}, got ${describe(value)}`;
+        case 'array': {
+            if (!Array.isArray(value)) {
+                return `${at}: expected array, got ${describe(value)}`;
+            }
+            if (!schema.items) return null;
+            for (let i = 0; i < value.length; i++) {
+                const problem = checkResponseSchema(schema.items, value[i], `${at}[${i}]`);
+                if (problem) return problem;
+            }
+            return null;
+        }
+        case 'object': {
+            if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+                return `${at}: expected object, got ${describe(value)}`;
+            }
+            for (const key of schema.required || []) {
+                if (!(key in value)) {
+                    return `${at}.${key}: missing`;
+                }
+            }
+            for (const [key, child] of Object.entries(schema.properties || {})) {
+                if (key in value) {
+                    const problem = checkResponseSchema(child, value[key], `${at}.${key}`);
+                    if (problem) return problem;
+                }
+            }
+            return null;
+        }
+    }
+}
+
+function describe(value: any): string {
+    return value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+}
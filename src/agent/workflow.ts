@@ -0,0 +1,293 @@
+import type { PaymentQuote } from '../x402/quote';
+import type { PaymentEvent } from '../x402/events';
+import { PaymentEventEmitter } from '../x402/events';
+import { withDeadline } from '../x402/abort';
+import type { TransactionalAgent } from './index';
+import { AgentTask, TaskCost, TaskOutcome, TaskStatus } from './tasks';
+
+/**
+ * Multi-step workflows: paid calls where later steps use earlier results.
+ *
+ * Steps form a DAG. A step depends on the steps it names in `needs` and on every
+ * step its templates read: "{{a.data.price}}" in a URL, header or body is replaced
+ * by that value from step `a`'s result ("{{inputs.x}}" reads the run's inputs).
+ * A string that is only a template keeps the value's type; inside a longer string
+ * it is stringified.
+ *
+ * Steps run one at a time in dependency order, so the total budget is simply
+ * what has been spent so far: each step may pay at most what is left.
+ */
+
+export interface WorkflowStep extends Omit<AgentTask, 'name'> {
+    id: string;
+    // 'quote' prices the URL without paying; its result's `quote` is the PaymentQuote
+    kind?: 'fetch' | 'quote';
+    // Extra dependencies, on top of the ones read from templates
+    needs?: string[];
+}
+
+export interface WorkflowDefinition {
+    name: string;
+    steps: WorkflowStep[];
+    // Total USD the whole workflow may spend
+    budgetUsd?: number;
+}
+
+export interface StepResult {
+    id: string;
+    kind: 'fetch' | 'quote';
+    status: TaskStatus;
+    // Response body (fetch) or null
+    data: any;
+    quote: PaymentQuote | null;
+    cost: TaskCost | null;
+    receipt: TaskOutcome['receipt'];
+    error: { code: string; message: string } | null;
+}
+
+export interface WorkflowReport {
+    name: string;
+    ok: boolean;
+    // In execution order; steps that never ran are 'skipped'
+    steps: StepResult[];
+    // Id of the step that stopped the workflow, if any
+    stoppedAt: string | null;
+    totalUsd: number;
+    budgetUsd: number | null;
+    startedAt: number;
+    finishedAt: number;
+}
+
+export class WorkflowError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'WorkflowError';
+    }
+}
+
+const TEMPLATE = /\{\{\s*([\w-]+)((?:\.[\w-]+)*)\s*\}\}/g;
+const WHOLE_TEMPLATE = /^\{\{\s*([\w-]+)((?:\.[\w-]+)*)\s*\}\}$/;
+
+/**
+ * Steps in an order that respects every dependency (declaration order where free).
+ * Throws WorkflowError on duplicate ids, unknown dependencies or cycles.
+ */
+export function planWorkflow(workflow: WorkflowDefinition): WorkflowStep[] {
+    const byId = new Map<string, WorkflowStep>();
+    for (const step of workflow.steps) {
+        if (step.id === 'inputs' || byId.has(step.id)) {
+            throw new WorkflowError(`Workflow ${workflow.name}: duplicate or reserved step id "${step.id}"`);
+        }
+        byId.set(step.id, step);
+    }
+
+    const deps = new Map<string, Set<string>>();
+    for (const step of workflow.steps) {
+        const needs = new Set([...(step.needs || []), ...templateRefs(step)]);
+        needs.delete('inputs');
+        for (const id of needs) {
+            if (!byId.has(id)) {
+                throw new WorkflowError(`Workflow ${workflow.name}: step "${step.id}" depends on unknown step "${id}"`);
+            }
+        }
+        deps.set(step.id, needs);
+    }
+
+    const order: WorkflowStep[] = [];
+    const done = new Set<string>();
+    while (order.length < workflow.steps.length) {
+        const next = workflow.steps.find(s => !done.has(s.id) && [...deps.get(s.id)!].every(d => done.has(d)));
+        if (!next) {
+            const stuck = workflow.steps.filter(s => !done.has(s.id)).map(s => s.id);
+            throw new WorkflowError(`Workflow ${workflow.name}: dependency cycle among ${stuck.join(', ')}`);
+        }
+        order.push(next);
+        done.add(next.id);
+    }
+    return order;
+}
+
+/**
+ * Replaces the templates in `value` (strings, arrays and plain objects, recursively).
+ */
+export function renderTemplate(value: any, scope: Record<string, any>): any {
+    if (typeof value === 'string') {
+        const whole = value.match(WHOLE_TEMPLATE);
+        if (whole) {
+            return lookup(scope, whole[1], whole[2]);
+        }
+        return value.replace(TEMPLATE, (_, id, path) => {
+            const found = lookup(scope, id, path);
+            return typeof found === 'object' ? JSON.stringify(found) : String(found);
+        });
+    }
+    if (Array.isArray(value)) {
+        return value.map(v => renderTemplate(v, scope));
+    }
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, renderTemplate(v, scope)]));
+    }
+    return value;
+}
+
+/**
+ * Runs the workflow on the agent's wallet, budget and ledger. Stops at the first
+ * failed step unless its onFailure is 'continue' (steps that depend on it are then
+ * skipped). Invalid workflows throw WorkflowError before anything is paid.
+ */
+export async function runWorkflow(
+    agent: TransactionalAgent,
+    workflow: WorkflowDefinition,
+    inputs: Record<string, any> = {},
+    options: { log?: (msg: string) => void; signal?: AbortSignal; timeoutMs?: number; onEvent?: (event: PaymentEvent) => void } = {}
+): Promise<WorkflowReport> {
+    const log = options.log || ((msg: string) => console.log(msg));
+    const order = planWorkflow(workflow);
+    const signal = withDeadline(options.signal, options.timeoutMs);
+    const events = new PaymentEventEmitter();
+    if (options.onEvent) {
+        events.onAny(options.onEvent);
+    }
+
+    const startedAt = Date.now();
+    const budgetUsd = workflow.budgetUsd ?? null;
+    const scope: Record<string, any> = { inputs };
+    const results: StepResult[] = [];
+    const failed = new Set<string>();
+    let stoppedAt: string | null = null;
+    const spent = () => results.reduce((sum, r) => sum + (r.cost?.usd ?? 0), 0);
+
+    log(`[Workflow] 🗺️ ${workflow.name}: ${order.map(s => s.id).join(' -> ')}${budgetUsd !== null ? ` (budget $${budgetUsd})` : ''}`);
+
+    for (const step of order) {
+        const blockedBy = [...(step.needs || []), ...templateRefs(step)].find(id => failed.has(id));
+        if (stoppedAt || signal?.aborted || blockedBy) {
+            // Skipped because of a failure also blocks the step's own dependents
+            if (blockedBy) failed.add(step.id);
+            results.push(stepResult(step, 'skipped'));
+            continue;
+        }
+
+        log(`[Workflow] ▶️ Step ${step.id}`);
+        const result = await runStep(agent, step, scope, {
+            log,
+            events,
+            signal,
+            remainingUsd: budgetUsd === null ? null : budgetUsd - spent()
+        });
+        results.push(result);
+        scope[step.id] = result;
+
+        if (result.status === 'failed') {
+            failed.add(step.id);
+            log(`[Workflow] ❌ Step ${step.id} failed: ${result.error?.message}`);
+            const action = step.onFailure || 'stop';
+            if (action === 'throw') {
+                throw new WorkflowError(`Workflow ${workflow.name}: step ${step.id} failed: ${result.error?.message}`);
+            }
+            if (action === 'stop') {
+                stoppedAt = step.id;
+            }
+        }
+    }
+
+    const report: WorkflowReport = {
+        name: workflow.name,
+        ok: results.every(r => r.status === 'succeeded'),
+        steps: results,
+        stoppedAt,
+        totalUsd: spent(),
+        budgetUsd,
+        startedAt,
+        finishedAt: Date.now()
+    };
+    log(`[Workflow] ${report.ok ? '✅' : '❌'} ${workflow.name}: ${results.filter(r => r.status === 'succeeded').length}/${results.length} steps succeeded, spent $${report.totalUsd.toFixed(4)}`);
+    return report;
+}
+
+async function runStep(
+    agent: TransactionalAgent,
+    step: WorkflowStep,
+    scope: Record<string, any>,
+    ctx: { log: (msg: string) => void; events: PaymentEventEmitter; signal?: AbortSignal; remainingUsd: number | null }
+): Promise<StepResult> {
+    let rendered: Pick<WorkflowStep, 'url' | 'headers' | 'body'>;
+    try {
+        rendered = renderTemplate({ url: step.url, headers: step.headers, body: step.body }, scope);
+    } catch (e: any) {
+        return { ...stepResult(step, 'failed'), error: { code: 'TEMPLATE_ERROR', message: e.message } };
+    }
+
+    if ((step.kind || 'fetch') === 'quote') {
+        try {
+            const quote = await agent.quote(rendered.url, ctx.log);
+            return { ...stepResult(step, 'succeeded'), quote };
+        } catch (e: any) {
+            return { ...stepResult(step, 'failed'), error: { code: e.code || 'UNKNOWN', message: e.message } };
+        }
+    }
+
+    if (ctx.remainingUsd !== null && ctx.remainingUsd <= 0) {
+        return { ...stepResult(step, 'failed'), error: { code: 'BUDGET_EXCEEDED', message: 'Workflow budget spent' } };
+    }
+    // The step may pay at most what is left of the workflow budget
+    const cappedByBudget = ctx.remainingUsd !== null && (step.maxPriceUsd === undefined || ctx.remainingUsd < step.maxPriceUsd);
+    const { outcome } = await agent.runTask({
+        ...step,
+        ...rendered,
+        name: step.id,
+        maxPriceUsd: cappedByBudget ? ctx.remainingUsd! : step.maxPriceUsd
+    }, { log: ctx.log, events: ctx.events, signal: ctx.signal });
+
+    let error = outcome.error;
+    if (cappedByBudget && error?.code === 'PAYMENT_REQUIRED_UNSATISFIABLE') {
+        error = { code: 'BUDGET_EXCEEDED', message: `Price exceeds the $${ctx.remainingUsd!.toFixed(4)} left of the workflow budget` };
+    }
+    return {
+        ...stepResult(step, outcome.status),
+        data: outcome.data,
+        cost: outcome.cost,
+        receipt: outcome.receipt,
+        error
+    };
+}
+
+function stepResult(step: WorkflowStep, status: TaskStatus): StepResult {
+    return {
+        id: step.id,
+        kind: step.kind || 'fetch',
+        status,
+        data: null,
+        quote: null,
+        cost: null,
+        receipt: null,
+        error: null
+    };
+}
+
+function templateRefs(step: WorkflowStep): string[] {
+    const refs = new Set<string>();
+    const visit = (value: any) => {
+        if (typeof value === 'string') {
+            for (const match of value.matchAll(TEMPLATE)) refs.add(match[1]);
+        } else if (value && typeof value === 'object') {
+            Object.values(value).forEach(visit);
+        }
+    };
+    visit([step.url, step.headers, step.body]);
+    return [...refs];
+}
+
+function lookup(scope: Record<string, any>, id: string, path: string): any {
+    if (!(id in scope)) {
+        throw new WorkflowError(`Template reads "${id}", which has no result`);
+    }
+    let value = scope[id];
+    for (const key of path.split('.').filter(Boolean)) {
+        if (value === null || value === undefined || !(key in Object(value))) {
+            throw new WorkflowError(`Template path ${id}${path} not found`);
+        }
+        value = value[key];
+    }
+    return value;
+}
@@ -0,0 +1,32 @@
+import crypto from "crypto";
+
+// Who is deciding on a payment, or why the request was refused
+export type ApproverCheck =
+    | { approver: string }
+    | { status: number; error: string; headers?: Record<string, string> };
+
+/**
+ * Checks a request to /api/approvals. It must come from the dashboard's own origin
+ * (a page elsewhere cannot list or approve payments through the user's browser) and carry
+ * one of the configured approver tokens (APPROVER_TOKENS, "name:token" pairs) as
+ * a bearer token. The approver recorded in the ledger is that token's name.
+ */
+export function checkApprover(request: Request, approverTokens: string[] | null): ApproverCheck {
+    const origin = request.headers.get("origin");
+    if (origin !== null && origin !== new URL(request.url).origin) {
+        return { status: 403, error: `Origin ${origin} not allowed` };
+    }
+    if (!approverTokens) {
+        return { status: 403, error: "No approvers configured: set APPROVER_TOKENS" };
+    }
+
+    const given = Buffer.from(/^Bearer (.+)$/i.exec(request.headers.get("authorization") || "")?.[1] || "");
+    for (const pair of approverTokens) {
+        const i = pair.indexOf(":");
+        const expected = Buffer.from(pair.slice(i + 1));
+        if (given.length === expected.length && crypto.timingSafeEqual(given, expected)) {
+            return { approver: pair.slice(0, i) };
+        }
+    }
+    return { status: 401, error: "Missing or invalid approver token", headers: { "WWW-Authenticate": "Bearer" } };
+}
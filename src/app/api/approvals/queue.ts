@@ -0,0 +1,11 @@
+import { ApprovalQueue } from "../../../agent/approvals";
+import { loadConfig } from "../../../config";
+
+// One queue for the whole dashboard server: /api/stream's agents submit to it and
+// /api/approvals decides. Kept on globalThis so dev-mode reloads do not lose pending requests.
+const holder = globalThis as typeof globalThis & { synergyApprovals?: ApprovalQueue };
+
+export function dashboardApprovals(): ApprovalQueue {
+    holder.synergyApprovals ??= new ApprovalQueue({ timeoutMs: loadConfig().agent.approvalTimeoutSeconds * 1000 });
+    return holder.synergyApprovals;
+}
@@ -0,0 +1,49 @@
+import { loadConfig } from "../../../config";
+import { checkApprover } from "./auth";
+import { dashboardApprovals } from "./queue";
+import type { ApprovalRequest } from "../../../agent/approvals";
+
+export type ApprovalsResponse = { pending: ApprovalRequest[] };
+
+// Body of POST /api/approvals, sent with "Authorization: Bearer <approver token>"
+export interface ApprovalDecisionBody {
+    requestId: string;
+    approved: boolean;
+}
+
+export const dynamic = 'force-dynamic';
+
+// Payments waiting for a human: approvers only, like POST (URLs, amounts and payees)
+export async function GET(request: Request) {
+    const check = checkApprover(request, loadConfig().agent.approverTokens);
+    if ("error" in check) {
+        return Response.json({ error: check.error }, { status: check.status, headers: check.headers });
+    }
+    const body: ApprovalsResponse = { pending: dashboardApprovals().pending() };
+    return Response.json(body);
+}
+
+// Approve or deny one of them, as the approver the token belongs to (see ./auth)
+export async function POST(request: Request) {
+    const check = checkApprover(request, loadConfig().agent.approverTokens);
+    if ("error" in check) {
+        return Response.json({ error: check.error }, { status: check.status, headers: check.headers });
+    }
+    const approver = check.approver;
+
+    let body: Partial<ApprovalDecisionBody>;
+    try {
+        body = await request.json();
+    } catch {
+        return Response.json({ error: "Body must be JSON" }, { status: 400 });
+    }
+    if (typeof body.requestId !== "string" || typeof body.approved !== "boolean") {
+        return Response.json({ error: "Expected { requestId: string, approved: boolean }" }, { status: 400 });
+    }
+
+    const decided = dashboardApprovals().decide(body.requestId, { approved: body.approved, approver });
+    if (!decided) {
+        return Response.json({ error: `No pending approval ${body.requestId} (already decided or expired)` }, { status: 404 });
+    }
+    return Response.json({ requestId: body.requestId, approved: body.approved, approver });
+}
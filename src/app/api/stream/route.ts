@@ -1,4 +1,12 @@
 import { TransactionalAgent } from "../../../agent";
+import { loadConfig } from "../../../config";
+import { agentConfigFrom } from "../../../config/agent";
+import { dashboardApprovals } from "../approvals/queue";
+import type { PaymentEvent } from "../../../x402/events";
+
+export type StreamLine =
+    | { kind: "log"; message: string }
+    | { kind: "event"; event: PaymentEvent };
 
 // Force dynamic prevents caching
 export const dynamic = 'force-dynamic';
@@ -7,46 +15,57 @@ export async function GET(request: Request) {
     console.log("API: /api/stream called at " + new Date().toISOString());
     const encoder = new TextEncoder();
 
+    // Stop the agent (before it signs, if it has not yet) when the browser goes away
+    const abortRun = new AbortController();
+    request.signal.addEventListener('abort', () => abortRun.abort(), { once: true });
+
     const stream = new ReadableStream({
         async start(controller) {
-            const privateKey = process.env.PRIVATE_KEY;
-            const rpcUrl = process.env.NEXT_PUBLIC_RPC_URL;
-
-            // Initialize Agent
-            // NOTE: In a real app, do not expose private key handling this way if possible, or ensure environment is secure.
-            const agent = new TransactionalAgent({
-                privateKey: privateKey,
-                // rpcUrl: rpcUrl, // REMOVED: Using default Base Sepolia RPC from client.ts to avoid env var conflict
-                useRealWallet: true
-            });
-
-            // Log callback to stream data
-            const logCallback = (msg: string) => {
+            // One JSON object per line: { kind: "log", message } or { kind: "event", event }
+            const send = (line: StreamLine) => {
                 try {
-                    controller.enqueue(encoder.encode(msg + "\n"));
+                    controller.enqueue(encoder.encode(JSON.stringify(line) + "\n"));
                 } catch (e) {
                     // Controller might be closed if client disconnected
                     console.error("Stream closed", e);
                 }
             };
+            const logCallback = (message: string) => send({ kind: "log", message });
+            const onEvent = (event: PaymentEvent) => send({ kind: "event", event });
 
             const runId = Date.now().toString() + "-" + Math.floor(Math.random() * 1000);
             logCallback(`[System] 🆔 Run ID: ${runId}`);
             logCallback(`[System] 🕐 Time: ${new Date().toISOString()}`);
 
             try {
-                await agent.run(logCallback);
+                // Initialize Agent from the shared config (see src/config), exactly as the CLI and MCP
+                // server do: same signer, budget, data dir, merchant policy and tasks. A bad setting
+                // or a missing signer is reported in the log.
+                const agent = new TransactionalAgent({
+                    ...(await agentConfigFrom(loadConfig())),
+                    // Payments over the threshold wait for Approve / Deny on the dashboard
+                    approvals: dashboardApprovals()
+                });
+                await agent.run(logCallback, { signal: abortRun.signal, onEvent });
             } catch (e: any) {
                 logCallback(`[System] ❌ Error: ${e.message}`);
             } finally {
-                controller.close();
+                try {
+                    controller.close();
+                } catch (e) {
+                    // Already cancelled by the client
+                }
             }
         },
+        cancel() {
+            console.log("API: /api/stream client disconnected, aborting run");
+            abortRun.abort();
+        },
     });
 
     return new Response(stream, {
         headers: {
-            'Content-Type': 'text/plain; charset=utf-8',
+            'Content-Type': 'application/x-ndjson; charset=utf-8',
             'Transfer-Encoding': 'chunked',
             'Cache-Control': 'no-store, no-cache, must-revalidate, proxy-revalidate, max-age=0',
             'Pragma': 'no-cache',
@@ -1,12 +1,34 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import { Terminal, Play, CreditCard, ShieldCheck, Coins } from "lucide-react";
+import { Terminal, Play, CreditCard, ShieldCheck, Coins, Receipt, UserCheck } from "lucide-react";
+import type { PaymentEvent } from "../x402/events";
+import type { StreamLine } from "./api/stream/route";
+import type { ApprovalDecisionBody } from "./api/approvals/route";
+
+// Dashboard label for the latest payment event
+const STAGE_LABELS: Record<PaymentEvent["type"], string> = {
+    quoteReceived: "Quoted",
+    optionSelected: "Option selected",
+    signing: "Signing",
+    paymentSent: "Sent",
+    verified: "Verified",
+    settled: "Settled",
+    receiptResolved: "Receipt",
+    bridgeStarted: "Bridging",
+    failed: "Failed",
+    approvalRequested: "Awaiting approval",
+    approvalDecided: "Approval decided",
+    payeeChanged: "Payee changed",
+};
 
 export default function Home() {
     const [logs, setLogs] = useState<string[]>([]);
+    const [events, setEvents] = useState<PaymentEvent[]>([]);
     const [isRunning, setIsRunning] = useState(false);
     const [micropayActive, setMicropayActive] = useState(false);
+    // One of APPROVER_TOKENS: the ledger records its name as whoever approved or denied a payment
+    const [approverToken, setApproverToken] = useState("");
     const scrollRef = useRef<HTMLDivElement>(null);
 
     // Auto-scroll to bottom of terminal
@@ -16,21 +38,42 @@ export default function Home() {
         }
     }, [logs]);
 
-    // Effect to toggle visual indicator based on logs
+    // Effect to toggle visual indicator based on payment events
     useEffect(() => {
-        const lastLog = logs[logs.length - 1];
-        if (lastLog?.includes("requesting liquidity")) {
+        const lastEvent = events[events.length - 1];
+        if (lastEvent?.type === "quoteReceived") {
             setMicropayActive(true);
         }
-        if (lastLog?.includes("Liquidity provided")) {
+        if (lastEvent?.type === "receiptResolved" || lastEvent?.type === "failed") {
             setTimeout(() => setMicropayActive(false), 2000);
         }
-    }, [logs]);
+    }, [events]);
+
+    const lastEvent = events[events.length - 1];
+    const selected = [...events].reverse().find((e) => e.type === "optionSelected");
+    const receipt = [...events].reverse().find((e) => e.type === "receiptResolved");
+    // Approval requests the agent is still waiting on
+    const decidedIds = new Set(events.flatMap((e) => e.type === "approvalDecided" ? [e.requestId] : []));
+    const pendingApprovals = events.flatMap((e) => e.type === "approvalRequested" && !decidedIds.has(e.requestId) ? [e] : []);
+
+    const decideApproval = async (requestId: string, approved: boolean) => {
+        const body: ApprovalDecisionBody = { requestId, approved };
+        const response = await fetch("/api/approvals", {
+            method: "POST",
+            headers: { "Content-Type": "application/json", Authorization: `Bearer ${approverToken}` },
+            body: JSON.stringify(body),
+        });
+        if (!response.ok) {
+            const { error } = await response.json().catch(() => ({ error: response.statusText }));
+            setLogs(prev => [...prev, `[System] ❌ Approval: ${error}`]);
+        }
+    };
 
     const runSimulation = async () => {
         if (isRunning) return;
         setIsRunning(true);
         setLogs([]);
+        setEvents([]);
 
         try {
             console.log("Starting fetch to /api/stream");
@@ -45,15 +88,22 @@ export default function Home() {
 
             const reader = response.body.getReader();
             const decoder = new TextDecoder();
+            let buffer = "";
 
             while (true) {
                 const { value, done } = await reader.read();
                 if (done) break;
 
-                const text = decoder.decode(value);
-                // Split by lines in case multiple come at once
-                const lines = text.split("\n").filter(l => l.trim() !== "");
-                setLogs(prev => [...prev, ...lines]);
+                // One JSON object per line; a chunk may end mid-line
+                buffer += decoder.decode(value, { stream: true });
+                const lines = buffer.split("\n");
+                buffer = lines.pop() ?? "";
+                const parsed: StreamLine[] = lines.filter(l => l.trim() !== "").map(l => JSON.parse(l));
+
+                const newLogs = parsed.flatMap(l => l.kind === "log" ? [l.message] : []);
+                const newEvents = parsed.flatMap(l => l.kind === "event" ? [l.event] : []);
+                if (newLogs.length) setLogs(prev => [...prev, ...newLogs]);
+                if (newEvents.length) setEvents(prev => [...prev, ...newEvents]);
             }
         } catch (e) {
             console.error(e);
@@ -108,9 +158,63 @@ export default function Home() {
                                     </span>
                                     <span className="text-purple-400 text-sm">Native Wallet</span>
                                 </div>
+                                <div className="flex items-center justify-between p-3 bg-black/40 rounded-lg border border-white/5">
+                                    <span className="flex items-center gap-2 text-sm text-gray-300">
+                                        <Receipt size={16} />
+                                        Payment
+                                    </span>
+                                    <span className={`text-sm ${lastEvent?.type === "failed" ? "text-red-400" : "text-yellow-300"}`}>
+                                        {lastEvent ? STAGE_LABELS[lastEvent.type] : "Idle"}
+                                    </span>
+                                </div>
+                                {selected?.type === "optionSelected" && (
+                                    <div className="text-xs text-gray-500 px-1">
+                                        {selected.option.amount} on {selected.option.network}
+                                    </div>
+                                )}
+                                {receipt?.type === "receiptResolved" && receipt.explorerUrl && (
+                                    <a href={receipt.explorerUrl} target="_blank" rel="noopener noreferrer" className="block text-xs text-blue-400 underline px-1 truncate">
+                                        {receipt.receipt.transaction}
+                                    </a>
+                                )}
                             </div>
                         </div>
 
+                        {pendingApprovals.length > 0 && (
+                            <div className="bg-yellow-900/20 backdrop-blur-md rounded-xl p-6 border border-yellow-500/40 space-y-4">
+                                <h2 className="flex items-center gap-2 text-sm text-yellow-300 uppercase tracking-wider">
+                                    <UserCheck size={16} /> Approval Needed
+                                </h2>
+                                <input
+                                    type="password"
+                                    value={approverToken}
+                                    onChange={(e) => setApproverToken(e.target.value)}
+                                    placeholder="Your approver token"
+                                    className="w-full px-3 py-2 rounded-lg bg-black/40 border border-white/10 text-sm text-gray-200"
+                                />
+                                {pendingApprovals.map((request) => (
+                                    <div key={request.requestId} className="p-3 bg-black/40 rounded-lg border border-white/5 space-y-2">
+                                        <div className="text-sm text-gray-200 break-all">{request.url}</div>
+                                        <div className="text-xs text-gray-400">
+                                            {request.priceUsd !== null ? `$${request.priceUsd.toFixed(4)}` : `${request.option.amount} of ${request.option.asset}`} on {request.option.network}
+                                        </div>
+                                        <div className="text-xs text-yellow-200/80">{request.reason}</div>
+                                        {request.expiresAt !== null && (
+                                            <div className="text-xs text-gray-500">Denied automatically at {new Date(request.expiresAt).toLocaleTimeString()}</div>
+                                        )}
+                                        <div className="flex gap-2">
+                                            <button onClick={() => decideApproval(request.requestId, true)} className="flex-1 py-2 rounded-lg text-sm font-bold bg-green-600 hover:bg-green-500">
+                                                Approve
+                                            </button>
+                                            <button onClick={() => decideApproval(request.requestId, false)} className="flex-1 py-2 rounded-lg text-sm font-bold bg-red-700 hover:bg-red-600">
+                                                Deny
+                                            </button>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
                         <button
                             onClick={runSimulation}
                             disabled={isRunning}
@@ -0,0 +1,113 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { generatePrivateKey } from 'viem/accounts';
+import { TransactionalAgent, ApprovalQueue } from './agent';
+import { RawKeySigner } from './x402/signers';
+import { startStandInMerchant } from './testing/standInMerchant';
+
+/**
+ * Runs the agent with a $0.05 approval threshold against a local stand-in merchant.
+ * A $0.01 call is paid without asking; three $0.10 calls wait for a human: one is
+ * approved, one denied and one left to time out. Checks that only approved
+ * payments are signed and that every decision is in the ledger with its approver.
+ * Runs fully offline.
+ */
+
+async function runApprovalTest() {
+    console.log("🚀 Starting Approval Test: human approval above a threshold");
+
+    const merchant = await startStandInMerchant({
+        payTo: '0x000000000000000000000000000000000000dEaD',
+        price: (p) => p.startsWith('/api/cheap') ? '10000' : '100000'
+    });
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'synergy-approval-'));
+    const failures: string[] = [];
+
+    try {
+        const approvals = new ApprovalQueue({ timeoutMs: 500 });
+        const agent = new TransactionalAgent({
+            signer: new RawKeySigner(generatePrivateKey()),
+            useRealWallet: true,
+            balanceCheck: false,
+            ledgerFile: path.join(dir, 'payments.jsonl'),
+            approvalThresholdUsd: 0.05,
+            approvals
+        });
+
+        // The "human": approves /api/approved as alice, denies /api/denied as bob, ignores the rest
+        const asked: string[] = [];
+        const report = await agent.run(() => { }, {
+            tasks: [
+                { name: 'cheap', url: `${merchant.url}/api/cheap`, onFailure: 'continue' },
+                { name: 'approved', url: `${merchant.url}/api/approved`, onFailure: 'continue' },
+                { name: 'denied', url: `${merchant.url}/api/denied`, onFailure: 'continue' },
+                { name: 'ignored', url: `${merchant.url}/api/ignored`, onFailure: 'continue' }
+            ],
+            onEvent: (event) => {
+                if (event.type !== 'approvalRequested') return;
+                asked.push(new URL(event.url).pathname);
+                if (approvals.pending().length !== 1 || event.expiresAt === null) {
+                    failures.push(`requested ${event.url}: ${approvals.pending().length} pending, expiresAt ${event.expiresAt}`);
+                }
+                if (event.url.endsWith('/approved')) setTimeout(() => approvals.decide(event.requestId, { approved: true, approver: 'alice' }), 20);
+                if (event.url.endsWith('/denied')) setTimeout(() => approvals.decide(event.requestId, { approved: false, approver: 'bob', reason: 'too dear' }), 20);
+            }
+        });
+
+        const [cheap, approved, denied, ignored] = report.tasks;
+        if (asked.join() !== '/api/approved,/api/denied,/api/ignored') {
+            failures.push(`asked about ${asked.join()}`);
+        }
+        if (cheap?.status !== 'succeeded' || approved?.status !== 'succeeded') {
+            failures.push(`cheap: ${cheap?.status}, approved: ${approved?.status}`);
+        }
+        if (denied?.error?.code !== 'PAYMENT_DECLINED' || !denied.error.message.includes('denied by bob')) {
+            failures.push(`denied: ${JSON.stringify(denied?.error)}`);
+        }
+        if (ignored?.error?.code !== 'PAYMENT_DECLINED' || !ignored.error.message.includes('denied by timeout')) {
+            failures.push(`ignored: ${JSON.stringify(ignored?.error)}`);
+        }
+        if (merchant.settlements.length !== 2 || merchant.paidAttempts.length !== 2) {
+            failures.push(`${merchant.settlements.length} settlements / ${merchant.paidAttempts.length} paid attempts, expected 2 / 2`);
+        }
+        if (approvals.pending().length !== 0) {
+            failures.push(`${approvals.pending().length} approvals still pending`);
+        }
+
+        // Every human decision is in the ledger, with who made it
+        const byPath = new Map(agent.ledger.entries().map(e => [new URL(e.url).pathname, e]));
+        const expect = (p: string, status: string, approver: string | undefined) => {
+            const entry = byPath.get(p);
+            if (entry?.status !== status || entry.approval?.approver !== approver) {
+                failures.push(`ledger ${p}: ${entry?.status} approved by ${entry?.approval?.approver}, expected ${status} by ${approver}`);
+            }
+        };
+        expect('/api/cheap', 'settled', undefined);
+        expect('/api/approved', 'settled', 'alice');
+        expect('/api/denied', 'declined', 'bob');
+        expect('/api/ignored', 'declined', 'timeout');
+        if (!byPath.get('/api/approved')?.nonce || byPath.get('/api/denied')?.nonce !== null) {
+            failures.push('nonce: expected one for the approved payment only');
+        }
+        if (byPath.get('/api/denied')?.approval?.reason !== 'too dear') {
+            failures.push(`denial reason: ${byPath.get('/api/denied')?.approval?.reason}`);
+        }
+    } finally {
+        await merchant.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+
+    console.log("---------------------------------------------------");
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`❌ ${f}`));
+        console.error(`❌ APPROVAL TEST FAILED (${failures.length} problems)`);
+        process.exit(1);
+    }
+    console.log("🎉 APPROVAL TEST PASSED: only approved payments signed, every decision recorded");
+}
+
+runApprovalTest().catch((error) => {
+    console.error("❌ Test Failed:", error.message || error);
+    process.exit(1);
+});
@@ -0,0 +1,115 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { generatePrivateKey } from 'viem/accounts';
+import { GET } from './app/api/stream/route';
+import { GET as listApprovals, POST } from './app/api/approvals/route';
+import { dashboardApprovals } from './app/api/approvals/queue';
+import type { LedgerEntry } from './x402/ledger';
+import { startStandInMerchant } from './testing/standInMerchant';
+
+/**
+ * Runs the dashboard's agent over its approval threshold and decides the payment
+ * through POST /api/approvals. Requests without a valid approver token, or from
+ * another origin, are refused, for listing pending approvals as for deciding them; the accepted one is recorded under the token's
+ * name, whatever the body says. Runs fully offline.
+ */
+
+const DASHBOARD = 'http://localhost:3000';
+
+function list(headers: Record<string, string> = {}): Promise<Response> {
+    return listApprovals(new Request(`${DASHBOARD}/api/approvals`, { headers }));
+}
+
+function decide(body: object, headers: Record<string, string> = {}): Promise<Response> {
+    return POST(new Request(`${DASHBOARD}/api/approvals`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body)
+    }));
+}
+
+async function runApprovalsRouteTest() {
+    console.log("🚀 Starting Approvals Route Test: only authenticated approvers decide");
+
+    const merchant = await startStandInMerchant({ payTo: '0x000000000000000000000000000000000000dEaD' });
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'synergy-approvals-'));
+    const failures: string[] = [];
+
+    Object.assign(process.env, {
+        PRIVATE_KEY: generatePrivateKey(),
+        REMOTE_SIGNER_URL: '',
+        KEYSTORE_PATH: '',
+        MERCHANT_URL: merchant.url,
+        SYNERGY_DIR: dir,
+        // Offline: no RPC to check balances against
+        AGENT_RPC_URL: 'http://127.0.0.1:9',
+        AGENT_MAX_PER_REQUEST_USD: '',
+        // The $0.01 call waits for a human
+        AGENT_APPROVAL_THRESHOLD_USD: '0.005',
+        APPROVER_TOKENS: 'alice:alice-secret-token,bob:bob-secret-token'
+    });
+
+    try {
+        const run = GET(new Request(`${DASHBOARD}/api/stream`)).then(response => response.text());
+        let requestId: string | undefined;
+        for (let i = 0; i < 100 && !requestId; i++) {
+            await new Promise(resolve => setTimeout(resolve, 50));
+            requestId = dashboardApprovals().pending()[0]?.requestId;
+        }
+        if (!requestId) {
+            throw new Error('the agent never asked for approval');
+        }
+
+        const refusals: [string, Promise<Response>, number][] = [
+            ['list, no token', list(), 401],
+            ['list, another origin', list({ Authorization: 'Bearer bob-secret-token', Origin: 'https://evil.example' }), 403],
+            ['no token', decide({ requestId, approved: true }), 401],
+            ['wrong token', decide({ requestId, approved: true }, { Authorization: 'Bearer alice-secret-tokem' }), 401],
+            ['another origin', decide({ requestId, approved: true }, { Authorization: 'Bearer alice-secret-token', Origin: 'https://evil.example' }), 403]
+        ];
+        for (const [label, response, status] of refusals) {
+            const { status: got } = await response;
+            if (got !== status) failures.push(`${label}: HTTP ${got}, expected ${status}`);
+        }
+        if (dashboardApprovals().pending().length !== 1) {
+            failures.push('a refused request decided the payment');
+        }
+
+        const listed = await list({ Authorization: 'Bearer bob-secret-token', Origin: DASHBOARD });
+        const { pending } = await listed.json();
+        if (listed.status !== 200 || pending?.[0]?.requestId !== requestId) {
+            failures.push(`list: HTTP ${listed.status} ${JSON.stringify(pending)}`);
+        }
+
+        // Alice approves from the dashboard; the body cannot claim to be someone else
+        const approved = await decide({ requestId, approved: true, approver: 'mallory' }, { Authorization: 'Bearer alice-secret-token', Origin: DASHBOARD });
+        const answer = await approved.json();
+        if (approved.status !== 200 || answer.approver !== 'alice') {
+            failures.push(`approval: HTTP ${approved.status} ${JSON.stringify(answer)}`);
+        }
+
+        await run;
+        const lines: LedgerEntry[] = fs.readFileSync(path.join(dir, 'payments.jsonl'), 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+        const entry = lines[lines.length - 1];
+        if (entry?.approval?.approver !== 'alice' || entry.status !== 'settled' || merchant.settlements.length !== 1) {
+            failures.push(`ledger: ${JSON.stringify(entry)}, ${merchant.settlements.length} settlements`);
+        }
+    } finally {
+        await merchant.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+
+    console.log("---------------------------------------------------");
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`❌ ${f}`));
+        console.error(`❌ APPROVALS ROUTE TEST FAILED (${failures.length} problems)`);
+        process.exit(1);
+    }
+    console.log("🎉 APPROVALS ROUTE TEST PASSED: unauthenticated and cross-origin decisions refused, approver from the token");
+}
+
+runApprovalsRouteTest().catch((error) => {
+    console.error("❌ Test Failed:", error.message || error);
+    process.exit(1);
+});
@@ -0,0 +1,149 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import type { PaymentRequirements } from '@x402/core/types';
+import { generatePrivateKey } from 'viem/accounts';
+import { RealWallet, X402Client } from './x402/client';
+import { BalanceChecker } from './x402/balance';
+import { InsufficientBalance, UnknownAsset } from './x402/errors';
+import { getToken } from './x402/networks';
+import { startStandInMerchant } from './testing/standInMerchant';
+
+/**
+ * Checks the pre-flight balance check: balances are cached for their TTL and read
+ * once for concurrent requests, payments in flight are held against them, and an
+ * asset that is no token contract is refused as unknown. Then pays local stand-in
+ * merchants through an X402Client whose RPC is a local fake holding 0.015 USDC:
+ * of two concurrent $0.01 requests only one is signed. Runs fully offline.
+ */
+
+const USDC = getToken('eip155:84532', 'USDC').address;
+// An address without code on the fake RPC
+const NOT_A_TOKEN = '0x00000000000000000000000000000000000A55e7';
+
+function option(amount: string, asset: string = USDC): PaymentRequirements {
+    return {
+        scheme: 'exact',
+        network: 'eip155:84532',
+        asset,
+        amount,
+        payTo: '0x000000000000000000000000000000000000dEaD',
+        maxTimeoutSeconds: 300,
+        extra: { name: 'USDC', version: '2' }
+    } as PaymentRequirements;
+}
+
+/**
+ * JSON-RPC endpoint that knows one token: eth_call to USDC answers `balance`,
+ * to any other address "0x" (no code). Counts the calls.
+ */
+async function startFakeRpc(balance: bigint): Promise<{ url: string; calls: string[]; close(): Promise<void> }> {
+    const calls: string[] = [];
+    const server = http.createServer(async (req, res) => {
+        let raw = '';
+        for await (const chunk of req) raw += chunk;
+        const { id, method, params } = JSON.parse(raw);
+        let result: string;
+        if (method === 'eth_chainId') {
+            result = '0x14a34';
+        } else if (method === 'eth_call') {
+            const to = String(params[0].to).toLowerCase();
+            calls.push(to);
+            result = to === USDC.toLowerCase() ? `0x${balance.toString(16).padStart(64, '0')}` : '0x';
+        } else {
+            res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ jsonrpc: '2.0', id, error: { code: -32601, message: `${method} not supported` } }));
+            return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ jsonrpc: '2.0', id, result }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return {
+        url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        calls,
+        close: () => new Promise(resolve => server.close(() => resolve()))
+    };
+}
+
+async function runBalanceTest() {
+    console.log("🚀 Starting Balance Test: pre-flight balance check, holds and cache");
+
+    const failures: string[] = [];
+
+    // Cache: concurrent reads share one call, a fresh balance is not read again, a stale one is
+    let reads = 0;
+    const checker = new BalanceChecker(async () => {
+        reads++;
+        await new Promise(resolve => setTimeout(resolve, 20));
+        return 25_000n;
+    }, { ttlMs: 100 });
+    await Promise.all([checker.balanceOf(option('1')), checker.balanceOf(option('1'))]);
+    await checker.balanceOf(option('1'));
+    if (reads !== 1) failures.push(`cache: ${reads} reads for three fresh lookups, expected 1`);
+    await new Promise(resolve => setTimeout(resolve, 150));
+    await checker.balanceOf(option('1'));
+    if (reads !== 2) failures.push(`cache: ${reads} reads after the TTL, expected 2`);
+    checker.invalidate();
+    await checker.balanceOf(option('1'));
+    if (reads !== 3) failures.push(`cache: ${reads} reads after invalidate(), expected 3`);
+
+    // Holds: 25000 covers two holds of 10000, not a third, until one is released
+    const holds = await Promise.allSettled([10_000n, 10_000n, 10_000n].map(amount => checker.hold(option(String(amount)))));
+    const refused = holds.filter(h => h.status === 'rejected');
+    if (refused.length !== 1 || !((refused[0] as PromiseRejectedResult).reason instanceof InsufficientBalance)) {
+        failures.push(`holds: ${refused.length} of 3 refused, expected 1 InsufficientBalance`);
+    }
+    const [first, second] = holds.flatMap(h => h.status === 'fulfilled' ? [h.value] : []);
+    first.release();
+    const third = await checker.hold(option('10000')).then(h => h, () => null);
+    if (!third) failures.push('holds: a released hold did not free its amount');
+    // Spent: deducted from the cached balance (25000 - 10000), no longer held
+    second.spend();
+    third?.release();
+    if (await checker.balanceOf(option('1')) !== 15_000n) {
+        failures.push(`holds: balance after spending 10000 is ${await checker.balanceOf(option('1'))}, expected 15000`);
+    }
+    const notAnAddress = await checker.hold(option('1', 'usdc')).then(() => null, (e) => e);
+    if (!(notAnAddress instanceof UnknownAsset)) failures.push(`asset "usdc": ${notAnAddress?.message ?? 'held'}`);
+
+    // Through the client, against a fake RPC holding 0.015 USDC
+    const rpc = await startFakeRpc(15_000n);
+    const merchant = await startStandInMerchant({ payTo: '0x000000000000000000000000000000000000dEaD', maxSettleDelayMs: 50 });
+    const stranger = await startStandInMerchant({ payTo: '0x000000000000000000000000000000000000dEaD', asset: NOT_A_TOKEN });
+    try {
+        const wallet = new RealWallet(generatePrivateKey(), rpc.url);
+        let signatures = 0;
+        const client = new X402Client(merchant.url, wallet, () => { }, { retry: false });
+        client.events.on('signing', () => signatures++);
+
+        const results = await Promise.allSettled([client.get('/api/premium'), client.get('/api/premium')]);
+        const paid = results.filter(r => r.status === 'fulfilled');
+        const short = results.flatMap(r => r.status === 'rejected' ? [r.reason] : []);
+        if (paid.length !== 1 || short[0]?.code !== 'INSUFFICIENT_BALANCE' || signatures !== 1 || merchant.paidAttempts.length !== 1) {
+            failures.push(`concurrent: ${paid.length} paid, ${short.map(e => e.code)}, ${signatures} signatures, ${merchant.paidAttempts.length} paid attempts`);
+        }
+        if (rpc.calls.filter(to => to === USDC.toLowerCase()).length !== 1) {
+            failures.push(`concurrent: ${rpc.calls.length} balance reads, expected 1`);
+        }
+
+        const unknown = await client.get(`${stranger.url}/api/premium`).then(() => null, (e) => e);
+        if (unknown?.code !== 'UNKNOWN_ASSET' || stranger.paidAttempts.length !== 0) {
+            failures.push(`non-contract asset: ${unknown?.code ?? 'paid'}, ${stranger.paidAttempts.length} paid attempts`);
+        }
+    } finally {
+        await merchant.close();
+        await stranger.close();
+        await rpc.close();
+    }
+
+    console.log("---------------------------------------------------");
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`❌ ${f}`));
+        console.error(`❌ BALANCE TEST FAILED (${failures.length} problems)`);
+        process.exit(1);
+    }
+    console.log("🎉 BALANCE TEST PASSED: balances cached, holds enforced, unknown assets refused");
+}
+
+runBalanceTest().catch((error) => {
+    console.error("❌ Test Failed:", error.message || error);
+    process.exit(1);
+});
@@ -0,0 +1,140 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { PaymentRequirements } from '@x402/core/types';
+import { BudgetExceededError, BudgetGuard, BudgetLimits, FileBudgetStore, MemoryBudgetStore, SpendRecord } from './x402/budget';
+
+/**
+ * Reserves payments against BudgetGuard limits: the per-request, hourly, daily,
+ * per-merchant and per-asset caps each refuse the payment that would break them,
+ * and an amount that is no number of base units is refused before any of them.
+ * Released reservations free their amount, pending and committed ones count, and
+ * a FileBudgetStore keeps the committed spend across restarts. Runs fully offline.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const USDC = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+// Not in the network registry, and not named like a stablecoin: cannot be priced
+const OTHER = '0x00000000000000000000000000000000000A55e7';
+const SHOP = 'http://shop.example';
+const CAFE = 'http://cafe.example';
+
+// A payment of `usd` in Base Sepolia USDC (6 decimals), or as many base units of `asset`
+function payment(usd: number, asset = USDC, network = 'eip155:84532'): PaymentRequirements {
+    return {
+        scheme: 'exact',
+        network,
+        asset,
+        amount: String(Math.round(usd * 1_000_000)),
+        payTo: '0x000000000000000000000000000000000000dEaD',
+        maxTimeoutSeconds: 300,
+        extra: { name: asset === USDC ? 'USDC' : 'Mystery Token', version: '1' }
+    } as PaymentRequirements;
+}
+
+function spentAt(ago: number, usd: number, origin = SHOP): SpendRecord {
+    return { at: Date.now() - ago, origin, network: 'eip155:84532', asset: USDC, amount: String(Math.round(usd * 1_000_000)), usd };
+}
+
+// The limit that refused the reservation, or null if it was granted
+function refusal(guard: BudgetGuard, origin: string, requirements: PaymentRequirements): string | null {
+    try {
+        guard.reserve(origin, requirements);
+        return null;
+    } catch (e) {
+        if (!(e instanceof BudgetExceededError)) throw e;
+        return e.limit;
+    }
+}
+
+async function runBudgetTest() {
+    console.log("🚀 Starting Budget Test: spending limits, reservations and persistence");
+
+    const failures: string[] = [];
+    const expect = (label: string, got: string | null, expected: string | null) => {
+        if (got !== expected) failures.push(`${label}: ${got ?? 'granted'}, expected ${expected ?? 'granted'}`);
+        else console.log(`✅ ${label}: ${got ?? 'granted'}`);
+    };
+    const guard = (limits: BudgetLimits, history: SpendRecord[] = []) => {
+        const store = new MemoryBudgetStore();
+        store.save(history);
+        return new BudgetGuard(limits, store);
+    };
+
+    expect('$0.10 over a $0.05 per-request cap', refusal(guard({ maxPerRequestUsd: 0.05 }), SHOP, payment(0.1)), 'maxPerRequestUsd');
+    expect('$0.05 at a $0.05 per-request cap', refusal(guard({ maxPerRequestUsd: 0.05 }), SHOP, payment(0.05)), null);
+
+    // $0.80 spent 2h ago counts for the day only; $0.15 spent 10 minutes ago counts for both
+    const history = [spentAt(2 * HOUR_MS, 0.8), spentAt(10 * 60 * 1000, 0.15)];
+    expect('$0.10 over a $0.20 hourly cap', refusal(guard({ hourlyUsd: 0.2 }, history), SHOP, payment(0.1)), 'hourlyUsd');
+    expect('$0.05 within a $0.20 hourly cap', refusal(guard({ hourlyUsd: 0.2 }, history), SHOP, payment(0.05)), null);
+    expect('$0.10 over a $1 daily cap', refusal(guard({ dailyUsd: 1 }, history), SHOP, payment(0.1)), 'dailyUsd');
+    expect('$0.05 within a $1 daily cap', refusal(guard({ dailyUsd: 1 }, history), SHOP, payment(0.05)), null);
+    expect('spend older than 24h', refusal(guard({ dailyUsd: 1 }, [spentAt(25 * HOUR_MS, 0.99)]), SHOP, payment(0.5)), null);
+
+    const perMerchant = { perMerchantUsd: { [SHOP]: 1 } };
+    expect('$0.10 over the shop\'s $1 cap', refusal(guard(perMerchant, history), SHOP, payment(0.1)), 'perMerchantUsd');
+    expect('$0.10 at an uncapped merchant', refusal(guard(perMerchant, history), CAFE, payment(0.1)), null);
+
+    // 0.95 USDC spent; the cap is keyed by network and asset address, in any case
+    const perAsset = { perAsset: { [`eip155:84532:${USDC.toLowerCase()}`]: '1000000' } };
+    expect('0.10 USDC over a 1 USDC cap', refusal(guard(perAsset, history), SHOP, payment(0.1)), 'perAsset');
+    expect('0.05 USDC within a 1 USDC cap', refusal(guard(perAsset, history), SHOP, payment(0.05)), null);
+    expect('an uncapped asset', refusal(guard(perAsset, history), SHOP, payment(0.5, OTHER)), null);
+    expect('the same address on another chain', refusal(guard(perAsset, history), SHOP, payment(0.5, USDC, 'eip155:8453')), null);
+    expect('an unpriced asset under a USD limit', refusal(guard({ dailyUsd: 1 }), SHOP, payment(0.01, OTHER)), 'unpriced');
+
+    // A garbled amount is no payment at all, not a free one
+    for (const amount of ['ten cents', '1e6', '-5', '']) {
+        const garbled = { ...payment(0.01), amount };
+        const error = (() => { try { guard({ maxPerRequestUsd: 0.05 }).reserve(SHOP, garbled); } catch (e) { return e; } })();
+        expect(`amount "${amount}"`, error?.code ?? null, 'PAYMENT_REQUIRED_UNSATISFIABLE');
+    }
+    // ...and a record priced as NaN does not switch the USD limits off
+    const poisoned = [{ ...spentAt(60 * 1000, 0.1), usd: NaN }, spentAt(60 * 1000, 0.95)];
+    expect('$0.10 over a $1 daily cap after a NaN record', refusal(guard({ dailyUsd: 1 }, poisoned), SHOP, payment(0.1)), 'dailyUsd');
+
+    // Pending reservations count; a released one frees its amount, a committed one keeps it
+    const daily = guard({ dailyUsd: 0.25 });
+    const first = daily.reserve(SHOP, payment(0.1));
+    const second = daily.reserve(SHOP, payment(0.1));
+    expect('a third $0.10 while two are pending', refusal(daily, SHOP, payment(0.1)), 'dailyUsd');
+    second.release();
+    second.commit();
+    expect('after one is released (and a late commit ignored)', refusal(daily, SHOP, payment(0.05)), null);
+    first.commit();
+    first.release();
+    if (daily.spent().reduce((sum, r) => sum + BigInt(r.amount), 0n) !== 150000n) {
+        failures.push(`spent ${JSON.stringify(daily.spent())}, expected the committed $0.10 and the pending $0.05`);
+    }
+
+    // Committed spend survives a restart; pending reservations do not
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'synergy-budget-'));
+    try {
+        const file = path.join(dir, 'spend.json');
+        const before = new BudgetGuard({ dailyUsd: 0.25 }, new FileBudgetStore(file));
+        before.reserve(SHOP, payment(0.2)).commit();
+        before.reserve(SHOP, payment(0.05));
+        const after = new BudgetGuard({ dailyUsd: 0.25 }, new FileBudgetStore(file));
+        expect('$0.10 after a restart with $0.20 spent', refusal(after, SHOP, payment(0.1)), 'dailyUsd');
+        expect('$0.05 after a restart with $0.20 spent', refusal(after, SHOP, payment(0.05)), null);
+        if (after.spent().length !== 2) {
+            failures.push(`after a restart: ${after.spent().length} records, expected the committed and the new pending one`);
+        }
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+
+    console.log("---------------------------------------------------");
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`❌ ${f}`));
+        console.error(`❌ BUDGET TEST FAILED (${failures.length} problems)`);
+        process.exit(1);
+    }
+    console.log("🎉 BUDGET TEST PASSED: every cap enforced, reservations released and committed, spend persisted");
+}
+
+runBudgetTest().catch((error) => {
+    console.error("❌ Test Failed:", error.message || error);
+    process.exit(1);
+});
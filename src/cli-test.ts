@@ -0,0 +1,137 @@
+import { execFile } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { generatePrivateKey } from 'viem/accounts';
+import { startStandInMerchant } from './testing/standInMerchant';
+
+/**
+ * Runs the synergy CLI against a local stand-in merchant: quote (also of a price
+ * that is no number, which is flagged rather than failing the quote), fetch (paid,
+ * then over --max-price, then of the garbled price), run and history, in
+ * JSON mode, checking that stdout carries only the JSON result. Quote and history
+ * must work without a key; a bad --method or --tasks file is a usage error.
+ * Balance and receipt need an RPC and are not exercised. Runs fully offline.
+ */
+
+const exec = promisify(execFile);
+
+async function runCliTest() {
+    console.log("🚀 Starting CLI Test: synergy quote, fetch, run and history");
+
+    const merchant = await startStandInMerchant({
+        payTo: '0x000000000000000000000000000000000000dEaD',
+        price: (p) => p === '/api/garbled' ? 'ten cents' : '10000'
+    });
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'synergy-cli-'));
+    const failures: string[] = [];
+
+    const env = {
+        ...process.env,
+        PRIVATE_KEY: generatePrivateKey(),
+        REMOTE_SIGNER_URL: '',
+        KEYSTORE_PATH: '',
+        MERCHANT_URL: merchant.url,
+        SYNERGY_DIR: dir,
+        // Offline: no RPC to check balances against
+        AGENT_RPC_URL: 'http://127.0.0.1:9'
+    };
+    const cli = async (env: NodeJS.ProcessEnv, args: string[]) => {
+        try {
+            const { stdout } = await exec(process.execPath, [...process.execArgv, path.join('src', 'cli', 'index.ts'), ...args, '--json', '--env', '.env.none'], { env, timeout: 60_000 });
+            return { code: 0, result: JSON.parse(stdout) };
+        } catch (e: any) {
+            if (typeof e.code !== 'number') throw e;
+            return { code: e.code as number, result: e.stdout ? JSON.parse(e.stdout) : null, stderr: e.stderr as string };
+        }
+    };
+
+    const synergy = (...args: string[]) => cli(env, args);
+    const keyless = { ...env, PRIVATE_KEY: '' };
+
+    try {
+        const quote = await synergy('quote', `${merchant.url}/api/report`);
+        if (quote.code !== 0 || quote.result.selected?.amount !== '10000') {
+            failures.push(`quote: ${JSON.stringify(quote)}`);
+        }
+        const keylessQuote = await cli(keyless, ['quote', `${merchant.url}/api/report`, '--method', 'post']);
+        if (keylessQuote.code !== 0 || keylessQuote.result.selected?.amount !== '10000') {
+            failures.push(`quote without a key: ${JSON.stringify(keylessQuote)}`);
+        }
+        const garbled = await synergy('quote', `${merchant.url}/api/garbled`);
+        if (garbled.code !== 0 || garbled.result.selected !== null || !garbled.result.options[0]?.invalid?.includes('Invalid amount "ten cents"')) {
+            failures.push(`quote of an invalid amount: ${JSON.stringify(garbled)}`);
+        }
+
+        const fetched = await synergy('fetch', `${merchant.url}/api/report`, '--method', 'post', '--data', '{"q":1}', '--max-price', '0.05');
+        if (fetched.code !== 0 || !fetched.result.receipt || JSON.parse(fetched.result.data.body).q !== 1) {
+            failures.push(`fetch: ${JSON.stringify(fetched)}`);
+        }
+
+        const tooDear = await synergy('fetch', `${merchant.url}/api/report`, '--max-price', '0.001');
+        if (tooDear.code !== 1 || tooDear.result.error?.code !== 'PAYMENT_REQUIRED_UNSATISFIABLE') {
+            failures.push(`fetch over --max-price: ${JSON.stringify(tooDear)}`);
+        }
+
+        const paidBefore = merchant.paidAttempts.length;
+        const unpayable = await synergy('fetch', `${merchant.url}/api/garbled`, '--max-price', '0.05');
+        if (unpayable.code !== 1 || unpayable.result.error?.code !== 'PAYMENT_REQUIRED_UNSATISFIABLE' ||
+            !unpayable.result.error.message?.includes('Invalid amount "ten cents"') || merchant.paidAttempts.length !== paidBefore) {
+            failures.push(`fetch of an invalid amount: ${JSON.stringify(unpayable)}`);
+        }
+
+        const run = await synergy('run');
+        if (run.code !== 0 || !run.result.ok || run.result.tasks[0]?.url !== `${merchant.url}/api/premium`) {
+            failures.push(`run: ${JSON.stringify(run)}`);
+        }
+
+        const history = await synergy('history', '--merchant', merchant.url);
+        if (history.code !== 0 || history.result.length !== 2 || history.result[0].url !== `${merchant.url}/api/premium`) {
+            failures.push(`history: ${JSON.stringify(history)}`);
+        }
+
+        const keylessHistory = await cli(keyless, ['history', '--merchant', merchant.url]);
+        if (keylessHistory.code !== 0 || keylessHistory.result.length !== 2) {
+            failures.push(`history without a key: ${JSON.stringify(keylessHistory)}`);
+        }
+
+        const paidBeforeUsage = merchant.paidAttempts.length;
+        const badMethod = await synergy('fetch', `${merchant.url}/api/report`, '--method', 'FROB');
+        if (badMethod.code !== 2) {
+            failures.push(`--method FROB exited ${badMethod.code}, expected 2`);
+        }
+        const tasksFile = path.join(dir, 'tasks.json');
+        for (const tasks of ['{"url": "x"}', '[{"name": "no url"}]', '[{"url": "http://x", "maxPriceUsd": "0.05"}]', 'not json']) {
+            fs.writeFileSync(tasksFile, tasks);
+            const badTasks = await synergy('run', '--tasks', tasksFile);
+            if (badTasks.code !== 2) {
+                failures.push(`--tasks ${tasks} exited ${badTasks.code}, expected 2`);
+            }
+        }
+        if (merchant.paidAttempts.length !== paidBeforeUsage) {
+            failures.push('a usage error still paid');
+        }
+
+        const usage = await synergy('frobnicate').catch((e) => ({ code: -1, result: e.message }));
+        if (usage.code !== 2) {
+            failures.push(`unknown command exited ${usage.code}, expected 2`);
+        }
+    } finally {
+        await merchant.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+
+    console.log("---------------------------------------------------");
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`❌ ${f}`));
+        console.error(`❌ CLI TEST FAILED (${failures.length} problems)`);
+        process.exit(1);
+    }
+    console.log("🎉 CLI TEST PASSED: commands pay, refuse and report as JSON");
+}
+
+runCliTest().catch((error) => {
+    console.error("❌ Test Failed:", error.message || error);
+    process.exit(1);
+});
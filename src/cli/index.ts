@@ -0,0 +1,286 @@
+import fs from 'fs';
+import { parseArgs } from 'util';
+import { TransactionalAgent, AgentTask, RunReport, TaskOutcome, WalletBalance, checkTasks, confirmLedgerPayment } from '../agent';
+import { ChainClients, HTTP_METHODS, HttpMethod, PaymentQuote, X402Client } from '../x402/client';
+import { describeQuoteOption } from '../x402/quote';
+import { explorerTxUrl, findToken } from '../x402/networks';
+import { PaymentLedger, JsonlLedgerStore, LedgerEntry } from '../x402/ledger';
+import { MerchantPolicy, FilePayeeStore } from '../x402/merchantPolicy';
+import { loadConfig, SynergyConfig } from '../config';
+import { agentConfigFrom, dataPaths, merchantPolicyFrom, rpcUrlsFrom } from '../config/agent';
+
+/**
+ * synergy - the agent's command-line interface.
+ *
+ * Results go to stdout (human-readable, or JSON with --json); agent logs go to
+ * stderr, so `synergy fetch ... --json | jq` stays clean.
+ */
+
+const USAGE = `Usage: synergy <command> [options]
+
+Commands:
+  run [--tasks file.json]                 Run the configured (or given) tasks
+  quote <url> [--method M]                Price a paid URL without paying
+  fetch <url> [--max-price USD] [--method M] [--data JSON] [--header "K: V"]...
+                                          Fetch a paid URL, paying for it
+  balance [--network id] [--asset addr]   Wallet balance (and USDC by default)
+  history [--merchant origin] [--today] [--pending] [--limit n]
+                                          Payments from the ledger
+  receipt <tx>                            Look up a payment and confirm it on-chain
+
+Options:
+  --json          Machine-readable output
+  --env <file>    Env file to load (default .env.local)
+  --config <file> JSON config file (default synergy.config.json)
+  --set <path=value>
+                  Override one setting, e.g. --set agent.network=eip155:8453
+  --verbose       Show agent logs for every command
+  --timeout <ms>  Total deadline for run / fetch`;
+
+class UsageError extends Error { }
+
+type Flags = ReturnType<typeof parse>['values'];
+
+function parse(argv: string[]) {
+    return parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            json: { type: 'boolean', default: false },
+            env: { type: 'string', default: '.env.local' },
+            config: { type: 'string' },
+            set: { type: 'string', multiple: true },
+            verbose: { type: 'boolean', default: false },
+            timeout: { type: 'string' },
+            tasks: { type: 'string' },
+            method: { type: 'string' },
+            data: { type: 'string' },
+            header: { type: 'string', multiple: true },
+            'max-price': { type: 'string' },
+            network: { type: 'string' },
+            asset: { type: 'string' },
+            merchant: { type: 'string' },
+            today: { type: 'boolean', default: false },
+            pending: { type: 'boolean', default: false },
+            limit: { type: 'string' },
+            help: { type: 'boolean', short: 'h', default: false }
+        }
+    });
+}
+
+async function main(argv: string[]): Promise<number> {
+    let parsed: ReturnType<typeof parse>;
+    try {
+        parsed = parse(argv);
+    } catch (e: any) {
+        throw new UsageError(e.message);
+    }
+    const { values: flags, positionals } = parsed;
+    const [command, ...args] = positionals;
+    if (!command || flags.help) {
+        console.error(USAGE);
+        return command ? 0 : 2;
+    }
+
+    // stdout is for results only
+    console.log = console.error;
+    const log = flags.verbose ? (msg: string) => console.error(msg) : () => { };
+    const print = (human: string, json: unknown) => {
+        process.stdout.write(flags.json ? JSON.stringify(json, null, 2) + '\n' : human + '\n');
+    };
+
+    const config = loadConfig({ envFiles: [flags.env], file: flags.config, overrides: flags.set });
+    // Only the commands that pay (or read the wallet) need the signer
+    const payingAgent = async () => new TransactionalAgent(await agentConfigFrom(config));
+    const ledger = () => new PaymentLedger(new JsonlLedgerStore(dataPaths(config).ledgerFile));
+
+    switch (command) {
+        case 'run': {
+            const tasks = flags.tasks ? readTasks(flags.tasks) : undefined;
+            const agent = await payingAgent();
+            const report = await agent.run(undefined, { tasks, timeoutMs: numberFlag(flags, 'timeout') });
+            print(formatRunReport(report), report);
+            return report.ok ? 0 : 1;
+        }
+        case 'quote': {
+            const url = requireArg(args, 'url');
+            const quote = await quoteClient(config, log).quote(url, parseMethod(flags));
+            const { raw, ...result } = quote;
+            print(formatQuote(quote), result);
+            return 0;
+        }
+        case 'fetch': {
+            const task: AgentTask = {
+                url: requireArg(args, 'url'),
+                method: parseMethod(flags),
+                headers: parseHeaders(flags.header),
+                body: flags.data !== undefined ? parseData(flags.data) : undefined,
+                maxPriceUsd: numberFlag(flags, 'max-price'),
+                timeoutMs: numberFlag(flags, 'timeout')
+            };
+            const agent = await payingAgent();
+            const { outcome } = await agent.runTask(task, { log });
+            print(formatOutcome(outcome), outcome);
+            return outcome.status === 'succeeded' ? 0 : 1;
+        }
+        case 'balance': {
+            // Without --asset, the network's USDC (if the registry knows one)
+            const network = flags.network || config.agent.network;
+            const agent = await payingAgent();
+            const balance = await agent.balance({
+                network,
+                asset: flags.asset || findToken(network, 'USDC')?.address
+            });
+            print(formatBalance(balance), balance);
+            return 0;
+        }
+        case 'history': {
+            const payments = ledger();
+            let entries = flags.merchant ? payments.byMerchant(flags.merchant) : payments.entries();
+            if (flags.today) {
+                const today = new Set(payments.today().map(e => e.id));
+                entries = entries.filter(e => today.has(e.id));
+            }
+            if (flags.pending) {
+                const unconfirmed = new Set(payments.unconfirmed().map(e => e.id));
+                entries = entries.filter(e => unconfirmed.has(e.id));
+            }
+            entries = entries.reverse().slice(0, numberFlag(flags, 'limit') ?? 20);
+            print(entries.length ? entries.map(formatEntry).join('\n') : 'No payments', entries);
+            return 0;
+        }
+        case 'receipt': {
+            const tx = requireArg(args, 'tx');
+            const { entry, verifiedOnChain } = await confirmLedgerPayment(ledger(), new ChainClients(rpcUrlsFrom(config)), tx);
+            print([
+                formatEntry(entry),
+                `  URL: ${entry.url}`,
+                `  Nonce: ${entry.nonce}`,
+                `  On-chain: ${verifiedOnChain ? 'Transfer confirmed' : 'Transfer NOT found'}`,
+                `  Explorer: ${explorerTxUrl(entry.receipt!.network, entry.receipt!.transaction) ?? 'n/a'}`
+            ].join('\n'), { entry, verifiedOnChain });
+            return verifiedOnChain ? 0 : 1;
+        }
+        default:
+            throw new UsageError(`Unknown command: ${command}`);
+    }
+}
+
+/**
+ * Prices without a wallet: nothing is signed, so no signer is needed.
+ */
+function quoteClient(config: SynergyConfig, log: (msg: string) => void): X402Client {
+    return new X402Client('', null, log, {
+        rpcUrls: rpcUrlsFrom(config),
+        merchantPolicy: new MerchantPolicy(merchantPolicyFrom(config), new FilePayeeStore(dataPaths(config).payeesFile))
+    });
+}
+
+function formatRunReport(report: RunReport): string {
+    return [
+        ...report.tasks.map(formatOutcome),
+        `${report.ok ? '✅' : '❌'} ${report.tasks.filter(t => t.status === 'succeeded').length}/${report.tasks.length} tasks succeeded, spent $${report.totalUsd.toFixed(4)}`
+    ].join('\n');
+}
+
+function formatOutcome(o: TaskOutcome): string {
+    const icon = o.status === 'succeeded' ? '🟢' : o.status === 'skipped' ? '⏭️' : '🔴';
+    const lines = [`${icon} ${o.name}: ${o.status}${o.httpStatus ? ` (HTTP ${o.httpStatus})` : ''}`];
+    if (o.cost) lines.push(`  Cost: ${o.cost.usd !== null ? `$${o.cost.usd.toFixed(4)}` : `${o.cost.amount} of ${o.cost.asset}`} on ${o.cost.network}`);
+    if (o.receipt) lines.push(`  Receipt: ${o.receipt.transaction}`);
+    if (o.error) lines.push(`  Error: ${o.error.code}: ${o.error.message}`);
+    if (o.status === 'succeeded' && o.data !== null) {
+        lines.push(typeof o.data === 'string' ? o.data : JSON.stringify(o.data, null, 2));
+    }
+    return lines.join('\n');
+}
+
+function formatQuote(quote: PaymentQuote): string {
+    if (!quote.paymentRequired) {
+        return `${quote.url}: no payment required`;
+    }
+    return [
+        `${quote.url}${quote.description ? ` - ${quote.description}` : ''}`,
+        ...quote.options.map(o => `  ${o === quote.selected ? '*' : '-'} ${describeQuoteOption(o)}`),
+        quote.selected ? `Would pay: ${describeQuoteOption(quote.selected)} (${quote.reason})` : `Would not pay: ${quote.reason}`
+    ].join('\n');
+}
+
+function formatBalance(b: WalletBalance): string {
+    const lines = [`${b.address} on ${b.network}`, `  ${b.native.formatted} ${b.native.symbol}`];
+    if (b.token) lines.push(`  ${b.token.formatted} ${b.token.symbol} (${b.token.asset})`);
+    return lines.join('\n');
+}
+
+function formatEntry(e: LedgerEntry): string {
+    const when = new Date(e.createdAt).toISOString().replace('T', ' ').slice(0, 19);
+    return `${when}  ${e.status.padEnd(9)}  ${e.origin}  ${e.requirements.amount} of ${e.requirements.asset} on ${e.requirements.network}  ${e.receipt?.transaction ?? '-'}`;
+}
+
+function requireArg(args: string[], name: string): string {
+    if (!args[0]) {
+        throw new UsageError(`Missing <${name}>`);
+    }
+    return args[0];
+}
+
+function numberFlag(flags: Flags, name: 'timeout' | 'max-price' | 'limit'): number | undefined {
+    const raw = flags[name];
+    if (raw === undefined) return undefined;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0) {
+        throw new UsageError(`--${name} must be a non-negative number`);
+    }
+    return value;
+}
+
+function parseMethod(flags: Flags): HttpMethod {
+    const method = (flags.method || 'GET').toUpperCase() as HttpMethod;
+    if (!HTTP_METHODS.includes(method)) {
+        throw new UsageError(`--method must be one of ${HTTP_METHODS.join(', ')}`);
+    }
+    return method;
+}
+
+function readTasks(file: string): AgentTask[] {
+    let tasks: unknown;
+    try {
+        tasks = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (e: any) {
+        throw new UsageError(`Cannot read --tasks ${file}: ${e.message}`);
+    }
+    const problem = checkTasks(tasks);
+    if (problem) {
+        throw new UsageError(`Bad --tasks ${file}: ${problem}`);
+    }
+    return tasks as AgentTask[];
+}
+
+function parseHeaders(headers: string[] = []): Record<string, string> {
+    return Object.fromEntries(headers.map(h => {
+        const i = h.indexOf(':');
+        if (i <= 0) throw new UsageError(`Bad --header "${h}", expected "Name: value"`);
+        return [h.slice(0, i).trim(), h.slice(i + 1).trim()];
+    }));
+}
+
+// JSON if it parses, otherwise sent as a plain string
+function parseData(data: string): unknown {
+    try {
+        return JSON.parse(data);
+    } catch {
+        return data;
+    }
+}
+
+main(process.argv.slice(2)).then(
+    (code) => process.exit(code),
+    (error) => {
+        console.error(`❌ ${error.message || error}`);
+        if (error instanceof UsageError) {
+            console.error(USAGE);
+            process.exit(2);
+        }
+        process.exit(1);
+    }
+);
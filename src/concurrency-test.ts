@@ -0,0 +1,73 @@
+import { generatePrivateKey } from 'viem/accounts';
+import { RealWallet, X402Client } from './x402/client';
+import { startStandInMerchant } from './testing/standInMerchant';
+
+/**
+ * Fans out many paid requests on ONE X402Client against a local stand-in merchant
+ * and checks that every response carries its own payment: the receipt's amount
+ * matches the price of the path that was requested, and its transaction is the
+ * settlement of the nonce that request signed. Runs fully offline.
+ */
+
+const REQUESTS = 25;
+
+async function runConcurrencyTest() {
+    console.log(`🚀 Starting Concurrency Test: ${REQUESTS} parallel paid requests on one client`);
+
+    const wallet = new RealWallet(generatePrivateKey());
+    const merchant = await startStandInMerchant({
+        payTo: '0x000000000000000000000000000000000000dEaD',
+        // Distinct price per path so a mixed-up receipt is detectable
+        price: (path) => String(10000 + Number(path.split('/').pop())),
+        maxSettleDelayMs: 200
+    });
+    console.log(`🛒 Stand-in merchant at ${merchant.url}`);
+
+    // Fresh wallet holds nothing on-chain, and the stand-in merchant does not check balances
+    const client = new X402Client(merchant.url, wallet, () => { }, { balanceCheck: false });
+    const failures: string[] = [];
+
+    try {
+        const results = await Promise.all(
+            Array.from({ length: REQUESTS }, (_, i) =>
+                client.post(`/api/premium/${i}`, { index: i }).then(response => ({ i, response }))
+            )
+        );
+
+        for (const { i, response } of results) {
+            const settlement = merchant.settlements.find(s => s.nonce === response.data.nonce);
+            const expectedAmount = String(10000 + i);
+
+            if (response.status !== 200) {
+                failures.push(`#${i}: status ${response.status}`);
+            } else if (!response.receipt) {
+                failures.push(`#${i}: no receipt`);
+            } else if (response.receipt.amount !== expectedAmount) {
+                failures.push(`#${i}: receipt amount ${response.receipt.amount}, expected ${expectedAmount}`);
+            } else if (!settlement || settlement.transaction !== response.receipt.transaction) {
+                failures.push(`#${i}: receipt ${response.receipt.transaction} is not this request's settlement`);
+            } else if (JSON.parse(response.data.body).index !== i) {
+                failures.push(`#${i}: paid retry did not resend the request body`);
+            }
+        }
+
+        if (merchant.settlements.length !== REQUESTS) {
+            failures.push(`merchant settled ${merchant.settlements.length} payments, expected ${REQUESTS}`);
+        }
+    } finally {
+        await merchant.close();
+    }
+
+    console.log("---------------------------------------------------");
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`❌ ${f}`));
+        console.error(`❌ CONCURRENCY TEST FAILED (${failures.length} problems)`);
+        process.exit(1);
+    }
+    console.log(`🎉 CONCURRENCY TEST PASSED: ${REQUESTS} payments, each with its own receipt`);
+}
+
+runConcurrencyTest().catch((error) => {
+    console.error("❌ Test Failed:", error.message || error);
+    process.exit(1);
+});
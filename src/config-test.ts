@@ -0,0 +1,116 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConfigError, loadConfig, overridesFromArgv } from './config';
+
+/**
+ * Loads the shared config from layered sources (JSON file < env file < process
+ * env < --set overrides) and checks precedence, defaults, fallbacks between env
+ * vars, placeholders, and that every bad value is reported in one ConfigError
+ * naming the setting and its source, without echoing secrets. Runs offline.
+ */
+
+const KEY = '0x' + '11'.repeat(32);
+
+async function runConfigTest() {
+    console.log("🚀 Starting Config Test: layered, validated configuration");
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'synergy-config-'));
+    const file = path.join(dir, 'synergy.config.json');
+    const envFile = path.join(dir, '.env');
+    const failures: string[] = [];
+    const check = (what: string, actual: unknown, expected: unknown) => {
+        if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+            failures.push(`${what}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+        }
+    };
+    const problemsOf = (fn: () => unknown): string[] => {
+        try {
+            fn();
+            return [];
+        } catch (e) {
+            return e instanceof ConfigError ? e.problems : [`not a ConfigError: ${e}`];
+        }
+    };
+
+    try {
+        fs.writeFileSync(file, JSON.stringify({
+            agent: { network: 'eip155:8453', dailyBudgetUsd: 5, maxPerRequestUsd: 0.1, allowedMerchants: ['https://*.example.com', 'http://localhost:*'] },
+            merchant: { port: 5000 }
+        }));
+        fs.writeFileSync(envFile, [
+            'AGENT_DAILY_BUDGET_USD=2',
+            'MERCHANT_PRIVATE_KEY=' + KEY.slice(2),
+            'PRIVATE_KEY=***this would be agent\'s private key***',
+            'MERCHANT_ADDRESS=0xYourMerchantAddressHere'
+        ].join('\n'));
+
+        // 1. Layering: defaults < file < env file < process env < overrides
+        const config = loadConfig({
+            file,
+            envFiles: [envFile],
+            env: { AGENT_MAX_PER_REQUEST_USD: '0.02', AGENT_BLOCKED_MERCHANTS: 'https://evil.example.com, ' },
+            overrides: overridesFromArgv(['run', '--set', 'merchant.port=6000', '--set=agent.dataDir=/tmp/x'])
+        });
+        check('file value', config.agent.network, 'eip155:8453');
+        check('env file over file', config.agent.dailyBudgetUsd, 2);
+        check('process env over env file', config.agent.maxPerRequestUsd, 0.02);
+        check('override over file', config.merchant.port, 6000);
+        check('override', config.agent.dataDir, '/tmp/x');
+        check('default', config.facilitator.port, 4022);
+        check('default boolean', config.facilitator.crossChainEnabled, true);
+        check('list from file', config.agent.allowedMerchants, ['https://*.example.com', 'http://localhost:*']);
+        check('comma-separated list', config.agent.blockedMerchants, ['https://evil.example.com']);
+        check('fallback env var, 0x added', config.facilitator.privateKey, KEY);
+        check('placeholder key is unset', config.agent.privateKey, null);
+        check('placeholder address is unset', config.merchant.address, null);
+
+        // 2. Every problem at once, with its source; secrets are not echoed
+        const problems = problemsOf(() => loadConfig({
+            file,
+            envFiles: [],
+            env: { PORT: '99999', EVM_PRIVATE_KEY: '0xdeadbeef', AGENT_NETWORK: 'base', CROSS_CHAIN_ENABLED: 'maybe' },
+            overrides: ['agent.colour=blue', 'oops']
+        }));
+        check('problem count', problems.length, 6);
+        const expected = [
+            'facilitator.port from env PORT: "99999"',
+            'facilitator.privateKey from env EVM_PRIVATE_KEY: (hidden)',
+            'agent.network from env AGENT_NETWORK: "base" is not a CAIP-2 network id',
+            'facilitator.crossChainEnabled from env CROSS_CHAIN_ENABLED',
+            '--set agent.colour: unknown setting',
+            '--set oops: expected path=value'
+        ];
+        for (const text of expected) {
+            if (!problems.some(p => p.includes(text))) failures.push(`missing problem "${text}" in ${JSON.stringify(problems)}`);
+        }
+        if (problems.some(p => p.includes('deadbeef'))) failures.push('secret echoed in a problem');
+
+        // 3. Required settings and cross-field checks
+        check('required', problemsOf(() => loadConfig({ file, envFiles: [], env: {}, require: ['merchant.address'] })),
+            ['merchant.address is required: set MERCHANT_ADDRESS, or "merchant.address" in synergy.config.json']);
+        check('keystore without passphrase', problemsOf(() => loadConfig({ file, envFiles: [], env: { KEYSTORE_PATH: 'k.json' } })).length, 1);
+
+        // 4. Bad config file
+        fs.writeFileSync(file, '{ "agent": ');
+        check('invalid JSON', problemsOf(() => loadConfig({ file, envFiles: [], env: {} })).length, 1);
+        fs.writeFileSync(file, JSON.stringify({ agnet: { network: 'eip155:1' } }));
+        check('unknown setting in file', problemsOf(() => loadConfig({ file, envFiles: [], env: {} })),
+            ['agnet.network in synergy.config.json: unknown setting']);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+
+    console.log("---------------------------------------------------");
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`❌ ${f}`));
+        console.error(`❌ CONFIG TEST FAILED (${failures.length} problems)`);
+        process.exit(1);
+    }
+    console.log("🎉 CONFIG TEST PASSED: sources layer, bad values are reported with their source");
+}
+
+runConfigTest().catch((error) => {
+    console.error("❌ Test Failed:", error.message || error);
+    process.exit(1);
+});
@@ -0,0 +1,93 @@
+import path from 'path';
+import type { AgentConfig, AgentTask } from '../agent';
+import type { BudgetLimits } from '../x402/budget';
+import type { MerchantPolicyOptions } from '../x402/merchantPolicy';
+import type { RpcUrlMap } from '../x402/networks';
+import { createSigner, SignerConfig } from '../x402/signers';
+import type { SynergyConfig } from './index';
+
+/**
+ * Turns the shared config's agent section into what TransactionalAgent takes.
+ * Used by the CLI, the MCP server and the dashboard's stream route.
+ */
+
+/**
+ * The signer to use, most secure first: remote signer, then keystore, then a raw
+ * private key. Null when none is configured.
+ */
+export function signerConfigFrom(config: SynergyConfig): SignerConfig | null {
+    const { agent } = config;
+    if (agent.remoteSignerUrl) {
+        return { type: 'remote', url: agent.remoteSignerUrl, token: agent.remoteSignerToken ?? undefined };
+    }
+    if (agent.keystorePath && agent.keystorePassphrase) {
+        return { type: 'keystore', path: agent.keystorePath, passphrase: agent.keystorePassphrase };
+    }
+    if (agent.privateKey) {
+        return { type: 'raw-key', privateKey: agent.privateKey };
+    }
+    return null;
+}
+
+export function budgetFrom(config: SynergyConfig): BudgetLimits | undefined {
+    const limits: BudgetLimits = {};
+    if (config.agent.maxPerRequestUsd !== null) limits.maxPerRequestUsd = config.agent.maxPerRequestUsd;
+    if (config.agent.dailyBudgetUsd !== null) limits.dailyUsd = config.agent.dailyBudgetUsd;
+    return Object.keys(limits).length > 0 ? limits : undefined;
+}
+
+export function merchantPolicyFrom(config: SynergyConfig): MerchantPolicyOptions {
+    return {
+        allowedOrigins: config.agent.allowedMerchants ?? undefined,
+        blockedOrigins: config.agent.blockedMerchants ?? undefined,
+        onPayToChange: config.agent.blockPayeeChanges ? 'block' : 'warn'
+    };
+}
+
+// RPC for the agent's default network, if one is configured
+export function rpcUrlsFrom(config: SynergyConfig): RpcUrlMap {
+    return config.agent.rpcUrl ? { [config.agent.network]: config.agent.rpcUrl } : {};
+}
+
+/**
+ * Files the agent keeps under its data dir. Commands that only read them (history,
+ * receipt, quote) open them directly, without a signer.
+ */
+export function dataPaths(config: SynergyConfig): { budgetFile: string; ledgerFile: string; payeesFile: string } {
+    const dir = path.resolve(process.cwd(), config.agent.dataDir);
+    return {
+        budgetFile: path.join(dir, 'spend.json'),
+        ledgerFile: path.join(dir, 'payments.jsonl'),
+        payeesFile: path.join(dir, 'payees.json')
+    };
+}
+
+export function defaultTasks(config: SynergyConfig): AgentTask[] {
+    return [{ name: 'premium', url: `${config.merchant.url}/api/premium` }];
+}
+
+/**
+ * AgentConfig for a real wallet. Throws when no signer is configured.
+ */
+export async function agentConfigFrom(config: SynergyConfig): Promise<AgentConfig> {
+    const signerConfig = signerConfigFrom(config);
+    if (!signerConfig) {
+        throw new Error('No signer configured: set REMOTE_SIGNER_URL, KEYSTORE_PATH + KEYSTORE_PASSPHRASE, or PRIVATE_KEY in .env.local');
+    }
+    const { budgetFile, ledgerFile, payeesFile } = dataPaths(config);
+
+    return {
+        signer: await createSigner(signerConfig),
+        rpcUrl: config.agent.rpcUrl ?? undefined,
+        network: config.agent.network,
+        useRealWallet: true,
+        budget: budgetFrom(config),
+        // Payments over it are declined unless an approval queue is added (the dashboard does)
+        approvalThresholdUsd: config.agent.approvalThresholdUsd ?? undefined,
+        budgetFile,
+        ledgerFile,
+        merchantPolicy: merchantPolicyFrom(config),
+        payeesFile,
+        tasks: defaultTasks(config)
+    };
+}
@@ -0,0 +1,354 @@
+import dotenv from 'dotenv';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Configuration shared by the Next.js app, the agent (CLI, MCP server) and the
+ * RailBridge merchant/facilitator servers.
+ *
+ * Every setting has a type, a default where one makes sense, and the env vars it
+ * is read from. Sources, lowest to highest precedence:
+ *   1. defaults
+ *   2. a JSON file (synergy.config.json, or SYNERGY_CONFIG) with the same nested shape
+ *   3. env files (.env.local by default), then the process environment
+ *   4. overrides such as CLI flags: `--set agent.network=eip155:8453`
+ *
+ * loadConfig() checks every value it finds and throws one ConfigError listing all
+ * problems, each naming the setting and where the bad value came from.
+ *
+ * Only Node built-ins and dotenv are imported: the facilitator compiles this file
+ * with its own (strict) settings.
+ */
+
+export type Hex = `0x${string}`;
+
+export interface SynergyConfig {
+    agent: {
+        // CAIP-2 id of the wallet's network
+        network: string;
+        rpcUrl: string | null;
+        privateKey: Hex | null;
+        keystorePath: string | null;
+        keystorePassphrase: string | null;
+        remoteSignerUrl: string | null;
+        remoteSignerToken: string | null;
+        maxPerRequestUsd: number | null;
+        dailyBudgetUsd: number | null;
+        // Payments above this wait for a human's approval (null: never ask)
+        approvalThresholdUsd: number | null;
+        // Unanswered approval requests are denied after this
+        approvalTimeoutSeconds: number;
+        // Merchant origin patterns, e.g. https://*.example.com (null: any merchant not blocked)
+        allowedMerchants: string[] | null;
+        blockedMerchants: string[] | null;
+        // Refuse a merchant whose payTo changed since it was last paid (false: warn and pay)
+        blockPayeeChanges: boolean;
+        // Bearer token the MCP server's HTTP transport requires (null: none)
+        mcpToken: string | null;
+        // "name:token" pairs: who may approve payments on the dashboard (null: nobody)
+        approverTokens: string[] | null;
+        // Spend totals and the payment ledger
+        dataDir: string;
+    };
+    merchant: {
+        url: string;
+        port: number;
+        // Receives the payments (on the destination chain for cross-chain routes)
+        address: Hex | null;
+        // payTo of cross-chain routes: the facilitator collects, then bridges
+        facilitatorAddress: Hex | null;
+    };
+    facilitator: {
+        url: string;
+        port: number;
+        // Settles payments and pays the gas
+        privateKey: Hex | null;
+        rpcUrl: string | null;
+        crossChainEnabled: boolean;
+        deployERC4337WithEIP6492: boolean;
+    };
+}
+
+export type ConfigSection = keyof SynergyConfig;
+export type ConfigPath = { [S in ConfigSection]: `${S}.${Extract<keyof SynergyConfig[S], string>}` }[ConfigSection];
+
+type FieldType = 'string' | 'list' | 'url' | 'port' | 'usd' | 'seconds' | 'boolean' | 'address' | 'privateKey' | 'caip2';
+
+interface FieldSpec {
+    type: FieldType;
+    // Read from the first one set
+    env: string[];
+    default?: string | number | boolean;
+    // Never echoed in error messages
+    secret?: boolean;
+}
+
+const SCHEMA: { [S in ConfigSection]: { [K in keyof SynergyConfig[S]]: FieldSpec } } = {
+    agent: {
+        network: { type: 'caip2', env: ['AGENT_NETWORK'], default: 'eip155:84532' },
+        rpcUrl: { type: 'url', env: ['AGENT_RPC_URL'] },
+        privateKey: { type: 'privateKey', env: ['PRIVATE_KEY', 'CLIENT_PRIVATE_KEY'], secret: true },
+        keystorePath: { type: 'string', env: ['KEYSTORE_PATH'] },
+        keystorePassphrase: { type: 'string', env: ['KEYSTORE_PASSPHRASE'], secret: true },
+        remoteSignerUrl: { type: 'url', env: ['REMOTE_SIGNER_URL'] },
+        remoteSignerToken: { type: 'string', env: ['REMOTE_SIGNER_TOKEN'], secret: true },
+        maxPerRequestUsd: { type: 'usd', env: ['AGENT_MAX_PER_REQUEST_USD'] },
+        dailyBudgetUsd: { type: 'usd', env: ['AGENT_DAILY_BUDGET_USD'] },
+        approvalThresholdUsd: { type: 'usd', env: ['AGENT_APPROVAL_THRESHOLD_USD'] },
+        approvalTimeoutSeconds: { type: 'seconds', env: ['AGENT_APPROVAL_TIMEOUT_SECONDS'], default: 120 },
+        allowedMerchants: { type: 'list', env: ['AGENT_ALLOWED_MERCHANTS'] },
+        blockedMerchants: { type: 'list', env: ['AGENT_BLOCKED_MERCHANTS'] },
+        blockPayeeChanges: { type: 'boolean', env: ['AGENT_BLOCK_PAYEE_CHANGES'], default: true },
+        mcpToken: { type: 'string', env: ['MCP_TOKEN'], secret: true },
+        approverTokens: { type: 'list', env: ['APPROVER_TOKENS'], secret: true },
+        dataDir: { type: 'string', env: ['SYNERGY_DIR'], default: '.synergy' }
+    },
+    merchant: {
+        url: { type: 'url', env: ['MERCHANT_URL'], default: 'http://localhost:4021' },
+        port: { type: 'port', env: ['MERCHANT_PORT'], default: 4021 },
+        address: { type: 'address', env: ['MERCHANT_ADDRESS'] },
+        facilitatorAddress: { type: 'address', env: ['FACILITATOR_ADDRESS'] }
+    },
+    facilitator: {
+        url: { type: 'url', env: ['FACILITATOR_URL'], default: 'http://localhost:4022' },
+        port: { type: 'port', env: ['FACILITATOR_PORT', 'PORT'], default: 4022 },
+        // Falls back to the root .env.local's merchant key, as the demo shares one wallet
+        privateKey: { type: 'privateKey', env: ['EVM_PRIVATE_KEY', 'MERCHANT_PRIVATE_KEY'], secret: true },
+        rpcUrl: { type: 'url', env: ['EVM_RPC_URL'] },
+        crossChainEnabled: { type: 'boolean', env: ['CROSS_CHAIN_ENABLED'], default: true },
+        deployERC4337WithEIP6492: { type: 'boolean', env: ['DEPLOY_ERC4337_WITH_EIP6492'], default: false }
+    }
+};
+
+export interface LoadConfigOptions {
+    // JSON config file (default: SYNERGY_CONFIG, else ./synergy.config.json if it exists)
+    file?: string;
+    // Env files, earlier ones win; missing files are skipped (default: ['.env.local'])
+    envFiles?: string[];
+    // Default: process.env
+    env?: Record<string, string | undefined>;
+    // "path=value" pairs, e.g. from --set flags (see overridesFromArgv)
+    overrides?: string[];
+    // Settings the caller cannot run without
+    require?: ConfigPath[];
+}
+
+export class ConfigError extends Error {
+    readonly problems: string[];
+
+    constructor(problems: string[]) {
+        super(`Invalid configuration:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+        this.name = 'ConfigError';
+        this.problems = problems;
+    }
+}
+
+interface RawValue {
+    value: unknown;
+    // Where it came from, for error messages
+    source: string;
+}
+
+export function loadConfig(options: LoadConfigOptions = {}): SynergyConfig {
+    const problems: string[] = [];
+    const env = options.env || process.env;
+    const envFileValues = readEnvFiles(options.envFiles || ['.env.local']);
+    const fileValues = readConfigFile(options.file ?? env.SYNERGY_CONFIG, problems);
+    const overrides = parseOverrides(options.overrides || [], problems);
+
+    const config: Record<string, Record<string, unknown>> = {};
+    for (const [section, fields] of Object.entries(SCHEMA) as [ConfigSection, Record<string, FieldSpec>][]) {
+        config[section] = {};
+        for (const [key, spec] of Object.entries(fields)) {
+            const at = `${section}.${key}`;
+            const raw = overrides.get(at)
+                ?? fromEnv(spec, env, 'env')
+                ?? fromEnv(spec, envFileValues.values, envFileValues.file)
+                ?? fileValues.get(at);
+            if (raw === undefined) {
+                config[section][key] = spec.default ?? null;
+                continue;
+            }
+            try {
+                config[section][key] = parseValue(spec.type, String(raw.value).trim());
+            } catch (e: any) {
+                const shown = spec.secret ? '(hidden)' : `"${raw.value}"`;
+                problems.push(`${at} from ${raw.source}: ${shown} ${e.message}`);
+            }
+        }
+    }
+
+    for (const key of fileValues.keys()) {
+        if (!isConfigPath(key)) problems.push(`${key} in ${fileValues.source}: unknown setting`);
+    }
+    for (const key of overrides.keys()) {
+        if (!isConfigPath(key)) problems.push(`--set ${key}: unknown setting`);
+    }
+
+    const result = config as unknown as SynergyConfig;
+    if (result.agent.approverTokens?.some(pair => !/^[^:]+:.+$/.test(pair))) {
+        problems.push('agent.approverTokens: (hidden) every entry must be name:token');
+    }
+    if (result.agent.keystorePath && !result.agent.keystorePassphrase) {
+        problems.push('agent.keystorePath is set but agent.keystorePassphrase (KEYSTORE_PASSPHRASE) is missing');
+    }
+    for (const at of options.require || []) {
+        const [section, key] = at.split('.') as [ConfigSection, string];
+        if ((result[section] as Record<string, unknown>)[key] === null) {
+            const spec = (SCHEMA[section] as Record<string, FieldSpec>)[key];
+            problems.push(`${at} is required: set ${spec.env.join(' or ')}, or "${at}" in synergy.config.json`);
+        }
+    }
+
+    if (problems.length > 0) {
+        throw new ConfigError(problems);
+    }
+    return result;
+}
+
+/**
+ * loadConfig() for entry points: on a ConfigError, prints the problems (and any
+ * hint lines) to stderr and exits with code 1.
+ */
+export function loadConfigOrExit(options: LoadConfigOptions = {}, hint: string[] = []): SynergyConfig {
+    try {
+        return loadConfig(options);
+    } catch (error) {
+        if (!(error instanceof ConfigError)) throw error;
+        console.error(`❌ ${error.message}`);
+        hint.forEach(line => console.error(line));
+        process.exit(1);
+    }
+}
+
+/**
+ * The "path=value" pairs of every `--set path=value` / `--set=path=value` in argv.
+ */
+export function overridesFromArgv(argv: string[] = process.argv.slice(2)): string[] {
+    const overrides: string[] = [];
+    argv.forEach((arg, i) => {
+        if (arg === '--set' && argv[i + 1] !== undefined) overrides.push(argv[i + 1]);
+        else if (arg.startsWith('--set=')) overrides.push(arg.slice('--set='.length));
+    });
+    return overrides;
+}
+
+function parseValue(type: FieldType, value: string): unknown {
+    switch (type) {
+        case 'string':
+            return value;
+        case 'list': {
+            // Comma-separated (a JSON array arrives joined the same way)
+            const items = value.split(',').map(item => item.trim()).filter(Boolean);
+            if (items.length === 0) throw new Error('is an empty list');
+            return items;
+        }
+        case 'url':
+            if (!/^https?:\/\/[^\s]+$/.test(value) || !URL.canParse(value)) throw new Error('is not an http(s) URL');
+            return value.replace(/\/$/, '');
+        case 'port': {
+            const port = Number(value);
+            if (!Number.isInteger(port) || port < 1 || port > 65535) throw new Error('is not a TCP port (1-65535)');
+            return port;
+        }
+        case 'usd': {
+            const usd = Number(value);
+            if (value === '' || !Number.isFinite(usd) || usd < 0) throw new Error('is not a non-negative USD amount');
+            return usd;
+        }
+        case 'seconds': {
+            const seconds = Number(value);
+            if (value === '' || !Number.isFinite(seconds) || seconds <= 0) throw new Error('is not a positive number of seconds');
+            return seconds;
+        }
+        case 'boolean':
+            if (/^(true|1|yes)$/i.test(value)) return true;
+            if (/^(false|0|no)$/i.test(value)) return false;
+            throw new Error('is not true or false');
+        case 'address':
+            if (!/^0x[0-9a-fA-F]{40}$/.test(value)) throw new Error('is not a 0x-prefixed 20-byte address');
+            return value;
+        case 'privateKey': {
+            const key = value.startsWith('0x') ? value : `0x${value}`;
+            if (!/^0x[0-9a-fA-F]{64}$/.test(key)) throw new Error('is not a 32-byte hex private key');
+            return key;
+        }
+        case 'caip2':
+            if (!/^[-a-z0-9]{3,8}:[-_a-zA-Z0-9]{1,32}$/.test(value)) throw new Error('is not a CAIP-2 network id like eip155:84532');
+            return value;
+    }
+}
+
+// Template values such as "your_evm_private_key_here" or "0xYourAddressHere" count as unset
+function isPlaceholder(value: string): boolean {
+    return value.trim() === '' || /^\*\*\*|your_?\w*here|^0xYour/i.test(value.trim());
+}
+
+function fromEnv(spec: FieldSpec, env: Record<string, string | undefined>, source: string): RawValue | undefined {
+    for (const name of spec.env) {
+        const value = env[name];
+        if (value !== undefined && !isPlaceholder(value)) {
+            return { value, source: source === 'env' ? `env ${name}` : `${name} in ${source}` };
+        }
+    }
+    return undefined;
+}
+
+function readEnvFiles(files: string[]): { values: Record<string, string>; file: string } {
+    const values: Record<string, string> = {};
+    const read: string[] = [];
+    for (const file of [...files].reverse()) {
+        const envPath = path.resolve(process.cwd(), file);
+        if (fs.existsSync(envPath)) {
+            Object.assign(values, dotenv.parse(fs.readFileSync(envPath)));
+            read.unshift(file);
+        }
+    }
+    return { values, file: read.join(' / ') || 'env files' };
+}
+
+function readConfigFile(file: string | undefined, problems: string[]): Map<string, RawValue> & { source?: string } {
+    const values: Map<string, RawValue> & { source?: string } = new Map();
+    const filePath = path.resolve(process.cwd(), file || 'synergy.config.json');
+    values.source = path.basename(filePath);
+    if (!fs.existsSync(filePath)) {
+        if (file) problems.push(`Config file ${file} not found`);
+        return values;
+    }
+
+    let json: any;
+    try {
+        json = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (e: any) {
+        problems.push(`${values.source}: not valid JSON (${e.message})`);
+        return values;
+    }
+    for (const [section, fields] of Object.entries(json ?? {})) {
+        if (!fields || typeof fields !== 'object') {
+            problems.push(`${section} in ${values.source}: expected an object of settings`);
+            continue;
+        }
+        for (const [key, value] of Object.entries(fields)) {
+            if (value !== null) values.set(`${section}.${key}`, { value, source: values.source });
+        }
+    }
+    return values;
+}
+
+function parseOverrides(overrides: string[], problems: string[]): Map<string, RawValue> {
+    const values = new Map<string, RawValue>();
+    for (const override of overrides) {
+        const i = override.indexOf('=');
+        if (i <= 0) {
+            problems.push(`--set ${override}: expected path=value, e.g. agent.network=eip155:8453`);
+            continue;
+        }
+        values.set(override.slice(0, i).trim(), { value: override.slice(i + 1), source: '--set' });
+    }
+    return values;
+}
+
+function isConfigPath(key: string): key is ConfigPath {
+    const [section, field, ...rest] = key.split('.');
+    return rest.length === 0 && section in SCHEMA && field in SCHEMA[section as ConfigSection];
+}
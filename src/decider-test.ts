@@ -0,0 +1,89 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { generatePrivateKey } from 'viem/accounts';
+import { TransactionalAgent, PaymentDecisionInput, ruleBasedDecider } from './agent';
+import { RawKeySigner } from './x402/signers';
+import { startStandInMerchant } from './testing/standInMerchant';
+
+/**
+ * Runs the agent with the rule-based payment decider against a local stand-in
+ * merchant: a normal price is paid, a task worth less than the price is skipped,
+ * and a price that doubled since the last payment is referred to a human, who
+ * denies it. Nothing declined may be signed. Also checks the merchant allowlist
+ * and the price ceiling on the decider alone. Runs fully offline.
+ */
+
+async function runDeciderTest() {
+    console.log("🚀 Starting Decider Test: pay, skip and ask-a-human");
+
+    const merchant = await startStandInMerchant({
+        payTo: '0x000000000000000000000000000000000000dEaD',
+        // $0.01, or $0.02 on /api/dear
+        price: (p) => p.includes('dear') ? '20000' : '10000'
+    });
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'synergy-decider-'));
+    const failures: string[] = [];
+    const asked: PaymentDecisionInput[] = [];
+
+    try {
+        const agent = new TransactionalAgent({
+            signer: new RawKeySigner(generatePrivateKey()),
+            useRealWallet: true,
+            balanceCheck: false,
+            ledgerFile: path.join(dir, 'payments.jsonl'),
+            decider: { maxPriceUsd: 0.05, maxPriceIncrease: 0.5, allowedMerchants: [merchant.url] },
+            askHuman: async (input) => {
+                asked.push(input);
+                return false;
+            }
+        });
+
+        const report = await agent.run(() => { }, {
+            tasks: [
+                { name: 'normal', url: `${merchant.url}/api/report` },
+                { name: 'not-worth-it', url: `${merchant.url}/api/report`, valueUsd: 0.005, onFailure: 'continue' },
+                { name: 'price-rise', url: `${merchant.url}/api/dear`, onFailure: 'continue' }
+            ]
+        });
+        const [normal, notWorth, rise] = report.tasks;
+
+        if (normal?.status !== 'succeeded') {
+            failures.push(`normal: ${normal?.status} ${normal?.error?.message}`);
+        }
+        if (notWorth?.error?.code !== 'PAYMENT_DECLINED' || asked.some(a => a.taskValueUsd !== null)) {
+            failures.push(`not-worth-it: ${JSON.stringify(notWorth?.error)}`);
+        }
+        if (rise?.error?.code !== 'PAYMENT_DECLINED' || asked.length !== 1 || asked[0].history.lastPaidUsd !== 0.01) {
+            failures.push(`price-rise: ${JSON.stringify(rise?.error)}, human asked ${asked.length} times`);
+        }
+        if (merchant.settlements.length !== 1 || merchant.paidAttempts.length !== 1) {
+            failures.push(`merchant saw ${merchant.paidAttempts.length} payments, expected only the normal one`);
+        }
+
+        const decider = ruleBasedDecider({ maxPriceUsd: 0.05, allowedMerchants: ['https://api.example.com'], onReferral: 'skip' });
+        const input = { ...asked[0], origin: 'https://other.example.com', priceUsd: 0.01 };
+        const unknown = await decider.decide(input);
+        const ceiling = await decider.decide({ ...input, origin: 'https://api.example.com', priceUsd: 0.06 });
+        const fine = await decider.decide({ ...input, origin: 'https://api.example.com' });
+        if (unknown.action !== 'skip' || ceiling.action !== 'skip' || fine.action !== 'pay') {
+            failures.push(`rules: unknown merchant ${unknown.action}, over ceiling ${ceiling.action}, allowed ${fine.action}`);
+        }
+    } finally {
+        await merchant.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+
+    console.log("---------------------------------------------------");
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`❌ ${f}`));
+        console.error(`❌ DECIDER TEST FAILED (${failures.length} problems)`);
+        process.exit(1);
+    }
+    console.log("🎉 DECIDER TEST PASSED: only the approved payment was signed");
+}
+
+runDeciderTest().catch((error) => {
+    console.error("❌ Test Failed:", error.message || error);
+    process.exit(1);
+});
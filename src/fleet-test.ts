@@ -0,0 +1,112 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { generatePrivateKey } from 'viem/accounts';
+import { AgentFleet } from './agent';
+import { RawKeySigner } from './x402/signers';
+import { startStandInMerchant } from './testing/standInMerchant';
+
+/**
+ * Runs a fleet of five agents, two at a time, against a local stand-in merchant
+ * ($0.01 per call). Each has its own wallet, budget and ledger: one agent's daily
+ * budget stops its second payment while the others pay twice. Checks the
+ * concurrency limit, the combined spend report, per-agent ledgers, and that two
+ * agents cannot share a wallet. Runs fully offline.
+ */
+
+async function runFleetTest() {
+    console.log("🚀 Starting Fleet Test: five isolated agents, two at a time");
+
+    const merchant = await startStandInMerchant({ payTo: '0x000000000000000000000000000000000000dEaD', maxSettleDelayMs: 50 });
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'synergy-fleet-'));
+    const failures: string[] = [];
+
+    try {
+        const fleet = new AgentFleet({ concurrency: 2, dataDir: dir });
+        const names = ['alice', 'bob', 'carol', 'dave', 'erin'];
+        const key = generatePrivateKey();
+        for (const name of names) {
+            fleet.add(name, {
+                signer: new RawKeySigner(name === 'alice' ? key : generatePrivateKey()),
+                useRealWallet: true,
+                balanceCheck: false,
+                // Carol can afford one call a day
+                budget: name === 'carol' ? { dailyUsd: 0.015 } : undefined,
+                tasks: [
+                    { name: 'first', url: `${merchant.url}/api/${name}/1`, onFailure: 'continue' },
+                    { name: 'second', url: `${merchant.url}/api/${name}/2` }
+                ]
+            });
+        }
+
+        try {
+            fleet.add('mallory', { signer: new RawKeySigner(key), useRealWallet: true });
+            failures.push('a second agent with alice\'s key was accepted');
+        } catch (e: any) {
+            if (!e.message.includes('same wallet')) failures.push(`shared wallet: ${e.message}`);
+        }
+        try {
+            fleet.add('bob', { signer: new RawKeySigner(generatePrivateKey()), useRealWallet: true });
+            failures.push('a duplicate name was accepted');
+        } catch {
+            // Expected
+        }
+
+        let running = 0;
+        let maxRunning = 0;
+        const report = await fleet.run({
+            log: (_name, msg) => {
+                if (msg.includes('Synergy Agent Starting')) maxRunning = Math.max(maxRunning, ++running);
+                if (msg.includes('AGENT SUCCESS') || msg.includes('AGENT FAILED')) running--;
+            }
+        });
+
+        if (maxRunning !== 2) {
+            failures.push(`${maxRunning} agents ran at once, expected 2`);
+        }
+        if (report.agents.map(a => a.name).join() !== names.join()) {
+            failures.push(`agents reported in order ${report.agents.map(a => a.name)}`);
+        }
+        const carol = report.agents.find(a => a.name === 'carol')!;
+        if (carol.report?.tasks[1]?.error?.code !== 'BUDGET_EXCEEDED' || carol.totalUsd !== 0.01) {
+            failures.push(`carol: ${JSON.stringify(carol.report?.tasks.map(t => t.error))}, spent $${carol.totalUsd}`);
+        }
+        if (report.agents.filter(a => a.report?.ok).length !== 4 || report.ok) {
+            failures.push(`${report.agents.filter(a => a.report?.ok).length} agents ok, fleet ok=${report.ok}; expected 4 and false`);
+        }
+        if (Math.abs(report.totalUsd - 0.09) > 1e-9 || report.payments !== 9 || Math.abs(report.byMerchant[merchant.url] - 0.09) > 1e-9) {
+            failures.push(`spent $${report.totalUsd} over ${report.payments} payments (${JSON.stringify(report.byMerchant)}), expected $0.09 over 9`);
+        }
+
+        // Each agent's own ledger holds only its own payments, from its own wallet
+        for (const name of names) {
+            const agent = fleet.get(name);
+            const entries = agent.ledger.entries();
+            const expected = name === 'carol' ? 1 : 2;
+            if (!fs.existsSync(path.join(dir, name, 'payments.jsonl'))) failures.push(`${name}: no ledger file`);
+            if (entries.length !== expected || entries.some(e => !e.url.includes(`/api/${name}/`) || e.payer?.toLowerCase() !== agent.address.toLowerCase())) {
+                failures.push(`${name}'s ledger: ${JSON.stringify(entries.map(e => [e.url, e.payer]))}`);
+            }
+        }
+        const payers = new Set(merchant.settlements.map(s => s.payer.toLowerCase()));
+        if (payers.size !== 5) {
+            failures.push(`${payers.size} distinct payers settled, expected 5`);
+        }
+    } finally {
+        await merchant.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+
+    console.log("---------------------------------------------------");
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`❌ ${f}`));
+        console.error(`❌ FLEET TEST FAILED (${failures.length} problems)`);
+        process.exit(1);
+    }
+    console.log("🎉 FLEET TEST PASSED: isolated wallets, budgets and ledgers, combined spend");
+}
+
+runFleetTest().catch((error) => {
+    console.error("❌ Test Failed:", error.message || error);
+    process.exit(1);
+});
@@ -0,0 +1,95 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { generatePrivateKey } from 'viem/accounts';
+import { RealWallet, X402Client } from './x402/client';
+import { PaymentLedger, JsonlLedgerStore } from './x402/ledger';
+import { startStandInMerchant } from './testing/standInMerchant';
+
+/**
+ * Pays two local stand-in merchants, one of which drops the connection after the
+ * payment was sent, and checks what the JSONL ledger recorded: one settled and one
+ * unknown payment, queryable by merchant, by day and as unconfirmed, and the same
+ * after reloading the file. Runs fully offline.
+ */
+
+async function runLedgerTest() {
+    console.log("🚀 Starting Ledger Test: payments recorded to a JSONL ledger");
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'synergy-ledger-'));
+    const file = path.join(dir, 'payments.jsonl');
+    const good = await startStandInMerchant({ payTo: '0x000000000000000000000000000000000000dEaD' });
+    const flaky = await startStandInMerchant({
+        payTo: '0x000000000000000000000000000000000000bEEF',
+        paidFailures: ['connection-reset']
+    });
+    const failures: string[] = [];
+
+    try {
+        const ledger = new PaymentLedger(new JsonlLedgerStore(file));
+        const wallet = new RealWallet(generatePrivateKey());
+        const options = { balanceCheck: false as const, retry: false as const, ledger };
+
+        await new X402Client(good.url, wallet, () => { }, options).get('/api/premium');
+        try {
+            await new X402Client(flaky.url, wallet, () => { }, options).get('/api/premium');
+            failures.push('flaky merchant: expected the request to fail');
+        } catch {
+            // Sent, then the connection dropped: outcome unknown
+        }
+
+        for (const [label, current] of [['live', ledger], ['reloaded', new PaymentLedger(new JsonlLedgerStore(file))]] as const) {
+            const entries = current.entries();
+            const settled = current.byMerchant(good.url);
+            const unknown = current.byMerchant(flaky.url);
+
+            if (entries.length !== 2) {
+                failures.push(`${label}: ${entries.length} entries, expected 2`);
+            }
+            // Keyed by a full UUID, so a new payment can never land on an old entry
+            if (entries.some(e => !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/.test(e.id))) {
+                failures.push(`${label}: entry ids ${entries.map(e => e.id).join(', ')} are not UUIDs`);
+            }
+            if (settled.length !== 1 || settled[0].status !== 'settled' || !settled[0].receipt?.transaction) {
+                failures.push(`${label}: good merchant entry ${JSON.stringify(settled)}`);
+            }
+            if (settled[0]?.nonce !== good.paidAttempts[0]) {
+                failures.push(`${label}: recorded nonce ${settled[0]?.nonce}, merchant saw ${good.paidAttempts[0]}`);
+            }
+            if (unknown.length !== 1 || unknown[0].status !== 'unknown' || unknown[0].error === null) {
+                failures.push(`${label}: flaky merchant entry ${JSON.stringify(unknown)}`);
+            }
+            if (current.today().length !== 2) {
+                failures.push(`${label}: ${current.today().length} payments today, expected 2`);
+            }
+            if (current.today(new Date(Date.now() + 86_400_000)).length !== 0) {
+                failures.push(`${label}: tomorrow already has payments`);
+            }
+            // Neither was confirmed on-chain (no onChainFallback)
+            if (current.unconfirmed().length !== 2) {
+                failures.push(`${label}: ${current.unconfirmed().length} unconfirmed, expected 2`);
+            }
+        }
+
+        if (failures.length === 0) {
+            console.log(`✅ ledger: ${fs.readFileSync(file, 'utf-8').trim().split('\n').length} lines for 2 payments`);
+        }
+    } finally {
+        await good.close();
+        await flaky.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+
+    console.log("---------------------------------------------------");
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`❌ ${f}`));
+        console.error(`❌ LEDGER TEST FAILED (${failures.length} problems)`);
+        process.exit(1);
+    }
+    console.log("🎉 LEDGER TEST PASSED: settled and unknown payments recorded and queryable");
+}
+
+runLedgerTest().catch((error) => {
+    console.error("❌ Test Failed:", error.message || error);
+    process.exit(1);
+});
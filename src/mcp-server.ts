@@ -0,0 +1,36 @@
+import { TransactionalAgent } from './agent';
+import { AgentMcpServer } from './mcp/server';
+import { loadConfig, overridesFromArgv } from './config';
+import { agentConfigFrom } from './config/agent';
+
+/**
+ * Starts the agent's MCP tool server.
+ *   tsx src/mcp-server.ts              # stdio (for MCP clients that spawn the server)
+ *   tsx src/mcp-server.ts --http 4030  # HTTP on http://127.0.0.1:4030/mcp (set MCP_TOKEN to require a bearer token)
+ * Settings can be overridden with --set, e.g. --set agent.dailyBudgetUsd=1
+ */
+
+async function main() {
+    // stdout carries the protocol over stdio: every log goes to stderr
+    console.log = console.error;
+
+    // Budget, ledger and signer come from the same config as the CLI (see ./config)
+    const config = loadConfig({ overrides: overridesFromArgv() });
+    const agent = new TransactionalAgent(await agentConfigFrom(config));
+    const server = new AgentMcpServer(agent);
+
+    const httpFlag = process.argv.indexOf('--http');
+    if (httpFlag !== -1) {
+        if (!config.agent.mcpToken) {
+            console.error('[MCP] ⚠️ No MCP_TOKEN set: any local process can make the agent pay');
+        }
+        await server.listenHttp({ port: Number(process.argv[httpFlag + 1] || 4030), token: config.agent.mcpToken ?? undefined });
+    } else {
+        await server.listenStdio();
+    }
+}
+
+main().catch((error) => {
+    console.error("MCP server failed:", error.message || error);
+    process.exit(1);
+});
@@ -0,0 +1,200 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import { generatePrivateKey } from 'viem/accounts';
+import { TransactionalAgent } from './agent';
+import { AgentMcpServer } from './mcp/server';
+import { RawKeySigner } from './x402/signers';
+import { startStandInMerchant } from './testing/standInMerchant';
+
+/**
+ * Drives the agent's MCP server over HTTP and stdio against a local stand-in
+ * merchant: lists the tools, quotes and pays for a resource, is refused a payment
+ * over the agent's per-request budget, and lists the payment it made; a bad limit
+ * or method is a tool error. Over HTTP, requests a web page could forge (no token,
+ * foreign Origin or Host, a text/plain body) are refused without paying, bodies
+ * over the size cap are refused, and a client dropping mid-body does not take
+ * the server down. (get_wallet_balance needs an RPC and is not exercised.) Runs
+ * fully offline.
+ */
+
+async function runMcpTest() {
+    console.log("🚀 Starting MCP Test: agent tools over HTTP and stdio");
+
+    const merchant = await startStandInMerchant({
+        payTo: '0x000000000000000000000000000000000000dEaD',
+        // $0.01, or $0.02 on /api/dear
+        price: (p) => p.includes('dear') ? '20000' : '10000'
+    });
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'synergy-mcp-'));
+    const failures: string[] = [];
+
+    const agent = new TransactionalAgent({
+        signer: new RawKeySigner(generatePrivateKey()),
+        useRealWallet: true,
+        balanceCheck: false,
+        budget: { maxPerRequestUsd: 0.015 },
+        budgetFile: path.join(dir, 'spend.json'),
+        ledgerFile: path.join(dir, 'payments.jsonl')
+    });
+    const server = new AgentMcpServer(agent, { log: () => { } });
+    const token = 'test-token-0123456789';
+    const endpoint = await server.listenHttp({ token, maxBodyBytes: 64 * 1024 });
+
+    let nextId = 1;
+    const rpc = async (method: string, params?: object) => {
+        const response = await fetch(endpoint.url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+            body: JSON.stringify({ jsonrpc: '2.0', id: nextId++, method, params })
+        });
+        return response.json();
+    };
+    const call = async (name: string, args: object) => (await rpc('tools/call', { name, arguments: args })).result;
+
+    try {
+        const init = await rpc('initialize', { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test', version: '0' } });
+        if (init.result?.protocolVersion !== '2025-06-18' || !init.result?.capabilities?.tools) {
+            failures.push(`initialize: ${JSON.stringify(init)}`);
+        }
+
+        const tools = (await rpc('tools/list')).result?.tools?.map((t: any) => t.name).sort().join(',');
+        if (tools !== 'fetch_paid_resource,get_wallet_balance,list_recent_payments,quote_paid_resource') {
+            failures.push(`tools/list: ${tools}`);
+        }
+
+        const quote = await call('quote_paid_resource', { url: `${merchant.url}/api/report` });
+        if (quote?.isError || quote?.structuredContent?.options?.[0]?.amount !== '10000' || merchant.settlements.length !== 0) {
+            failures.push(`quote: ${JSON.stringify(quote)}`);
+        }
+
+        const paid = await call('fetch_paid_resource', { url: `${merchant.url}/api/report`, method: 'POST', body: { q: 1 } });
+        if (paid?.isError || !paid?.structuredContent?.receipt || paid.structuredContent.cost?.usd !== 0.01) {
+            failures.push(`fetch: ${JSON.stringify(paid)}`);
+        }
+
+        const overBudget = await call('fetch_paid_resource', { url: `${merchant.url}/api/dear` });
+        if (!overBudget?.isError || overBudget.structuredContent?.error?.code !== 'BUDGET_EXCEEDED' || merchant.settlements.length !== 1) {
+            failures.push(`over budget: ${JSON.stringify(overBudget)}`);
+        }
+
+        const history = await call('list_recent_payments', { limit: 5 });
+        const payments = history?.structuredContent?.payments || [];
+        if (payments.length !== 1 || payments[0].nonce !== merchant.settlements[0]?.nonce) {
+            failures.push(`list_recent_payments: ${JSON.stringify(history)}`);
+        }
+
+        for (const limit of [0, -1, 2.5, 1e9, '5']) {
+            const bad = await call('list_recent_payments', { limit });
+            if (!bad?.isError) failures.push(`list_recent_payments with limit ${JSON.stringify(limit)}: ${JSON.stringify(bad)}`);
+        }
+        const badMethod = await call('fetch_paid_resource', { url: `${merchant.url}/api/report`, method: 'FROB' });
+        if (!badMethod?.isError || merchant.settlements.length !== 1) {
+            failures.push(`fetch with method FROB: ${JSON.stringify(badMethod)}`);
+        }
+
+        const unknownMethod = await rpc('resources/list');
+        if (unknownMethod.error?.code !== -32601) {
+            failures.push(`unknown method: ${JSON.stringify(unknownMethod)}`);
+        }
+
+        // Requests a browser page or another local process could send
+        const payBody = JSON.stringify({ jsonrpc: '2.0', id: 99, method: 'tools/call', params: { name: 'fetch_paid_resource', arguments: { url: `${merchant.url}/api/report` } } });
+        const post = (headers: Record<string, string>) => new Promise<number>((resolve, reject) => {
+            const req = http.request(endpoint.url, { method: 'POST', headers }, (res) => {
+                res.resume();
+                resolve(res.statusCode || 0);
+            });
+            req.on('error', reject);
+            req.end(payBody);
+        });
+        const json = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+        const refusals: [string, Record<string, string>, number][] = [
+            ['no token', { 'Content-Type': 'application/json' }, 401],
+            ['wrong token', { ...json, Authorization: 'Bearer nope' }, 401],
+            ['text/plain', { ...json, 'Content-Type': 'text/plain' }, 415],
+            ['foreign Origin', { ...json, Origin: 'https://evil.example' }, 403],
+            ['foreign Host', { ...json, Host: `evil.example:${new URL(endpoint.url).port}` }, 403]
+        ];
+        for (const [what, headers, status] of refusals) {
+            const got = await post(headers);
+            if (got !== status) failures.push(`${what}: HTTP ${got}, expected ${status}`);
+        }
+        if (await post({ ...json, Origin: new URL(endpoint.url).origin }) !== 200) {
+            failures.push('same-origin request refused');
+        }
+        // The same-origin call above paid once more; none of the refused ones did
+        if (merchant.settlements.length !== 2) {
+            failures.push(`${merchant.settlements.length} settlements after the refused requests, expected 2`);
+        }
+
+        // A client that drops the connection mid-body
+        await new Promise<void>((resolve) => {
+            const req = http.request(endpoint.url, { method: 'POST', headers: { ...json, 'Content-Length': '1000' } });
+            req.on('error', () => resolve());
+            req.write('{"jsonrpc":');
+            setTimeout(() => { req.destroy(); resolve(); }, 50);
+        });
+        await new Promise(resolve => setTimeout(resolve, 50));
+        if ((await rpc('ping')).result === undefined) {
+            failures.push('server stopped answering after an aborted request');
+        }
+
+        // Bodies over the cap, declared up front or streamed without a length
+        const padding = 'x'.repeat(64 * 1024);
+        const declared = await fetch(endpoint.url, {
+            method: 'POST',
+            headers: { ...json },
+            body: JSON.stringify({ jsonrpc: '2.0', id: 100, method: 'ping', params: { padding } })
+        });
+        const streamed = await new Promise<number>((resolve, reject) => {
+            const req = http.request(endpoint.url, { method: 'POST', headers: { ...json, 'Transfer-Encoding': 'chunked' } }, (res) => {
+                res.resume();
+                resolve(res.statusCode || 0);
+            });
+            req.on('error', reject);
+            req.write(padding);
+            req.end(padding);
+        });
+        if (declared.status !== 413 || streamed !== 413) {
+            failures.push(`oversized bodies: HTTP ${declared.status} and ${streamed}, expected 413`);
+        }
+        if ((await rpc('ping')).result === undefined) {
+            failures.push('server stopped answering after an oversized request');
+        }
+
+        // Same server over stdio
+        const input = new PassThrough();
+        const output = new PassThrough();
+        const lines: any[] = [];
+        output.on('data', (chunk) => chunk.toString().split('\n').filter(Boolean).forEach((l: string) => lines.push(JSON.parse(l))));
+        const served = server.listenStdio(input, output);
+        input.write(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2024-11-05' } }) + '\n');
+        input.write(JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }) + '\n');
+        input.write(JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }) + '\n');
+        input.end();
+        await served;
+        if (lines.length !== 2 || lines[0].result?.protocolVersion !== '2024-11-05' || lines[1].result?.tools?.length !== 4) {
+            failures.push(`stdio: ${JSON.stringify(lines)}`);
+        }
+    } finally {
+        await endpoint.close();
+        await merchant.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+
+    console.log("---------------------------------------------------");
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`❌ ${f}`));
+        console.error(`❌ MCP TEST FAILED (${failures.length} problems)`);
+        process.exit(1);
+    }
+    console.log("🎉 MCP TEST PASSED: tools work over HTTP and stdio within the budget");
+}
+
+runMcpTest().catch((error) => {
+    console.error("❌ Test Failed:", error.message || error);
+    process.exit(1);
+});
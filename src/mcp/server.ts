@@ -0,0 +1,382 @@
+import crypto from 'crypto';
+import http from 'http';
+import readline from 'readline';
+import { AddressInfo } from 'net';
+import type { TransactionalAgent } from '../agent';
+import type { HttpMethod } from '../x402/client';
+import { X402Error } from '../x402/errors';
+
+/**
+ * Model Context Protocol server exposing the paying agent as tools.
+ *
+ * Speaks MCP's JSON-RPC 2.0 directly: newline-delimited messages over stdio, or
+ * one message per POST over HTTP (JSON responses, no SSE). Paid fetches go through
+ * the agent, so its budget, selection policy, decider and ledger all apply.
+ *
+ * Any caller of fetch_paid_resource spends the agent's money, so the HTTP transport
+ * only takes `Content-Type: application/json` POSTs (never a form or text/plain post
+ * a web page can send without a preflight), refuses foreign Origin and Host headers
+ * (cross-site requests, DNS rebinding), and can require a bearer token. Bodies
+ * over `maxBodyBytes` are refused unread.
+ */
+
+export const PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+export interface McpTool {
+    name: string;
+    description: string;
+    inputSchema: Record<string, unknown>;
+    call(args: Record<string, any>): Promise<unknown>;
+}
+
+export interface AgentMcpServerOptions {
+    name?: string;
+    version?: string;
+    // Diagnostics; must not go to stdout when serving over stdio (default: stderr)
+    log?: (msg: string) => void;
+}
+
+export interface McpHttpOptions {
+    port?: number;
+    // Interface to bind (default 127.0.0.1)
+    host?: string;
+    path?: string;
+    // Required as `Authorization: Bearer <token>` when set
+    token?: string;
+    // Origins allowed to call from a browser, besides the server's own (default: none)
+    allowedOrigins?: string[];
+    // Largest request body accepted, in bytes (default 1 MiB)
+    maxBodyBytes?: number;
+}
+
+interface JsonRpcMessage {
+    jsonrpc: '2.0';
+    id?: string | number | null;
+    method?: string;
+    params?: any;
+}
+
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+const FETCH_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+// Most payments list_recent_payments returns at once
+const MAX_PAYMENTS_LISTED = 100;
+
+class RpcError extends Error {
+    constructor(readonly code: number, message: string) {
+        super(message);
+    }
+}
+
+/**
+ * The four agent tools. Tool failures (budget exceeded, declined, merchant errors)
+ * are reported as tool results with isError, so the model can see why.
+ */
+export function createAgentTools(agent: TransactionalAgent, log: (msg: string) => void): McpTool[] {
+    return [
+        {
+            name: 'quote_paid_resource',
+            description: 'Price an x402 paid URL without paying: the payment options the merchant offers and the one the agent would choose.',
+            inputSchema: {
+                type: 'object',
+                properties: { url: { type: 'string', description: 'Absolute URL of the paid resource' } },
+                required: ['url']
+            },
+            async call({ url }) {
+                const { raw, ...quote } = await agent.quote(requireUrl(url), log);
+                return quote;
+            }
+        },
+        {
+            name: 'fetch_paid_resource',
+            description: 'Fetch an x402 paid URL, paying for it from the agent wallet within its budget. Returns the response, cost and settlement receipt.',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    url: { type: 'string', description: 'Absolute URL of the paid resource' },
+                    method: { type: 'string', enum: FETCH_METHODS },
+                    headers: { type: 'object', additionalProperties: { type: 'string' } },
+                    body: { description: 'Request body; objects are sent as JSON' },
+                    max_price_usd: { type: 'number', description: 'Refuse to pay more than this' }
+                },
+                required: ['url']
+            },
+            async call({ url, method, headers, body, max_price_usd }) {
+                const { outcome, error } = await agent.runTask({
+                    url: requireUrl(url),
+                    method: requireMethod(method),
+                    headers,
+                    body,
+                    maxPriceUsd: max_price_usd
+                }, { log });
+                if (outcome.status !== 'succeeded') {
+                    throw error;
+                }
+                const { name, ...result } = outcome;
+                return result;
+            }
+        },
+        {
+            name: 'get_wallet_balance',
+            description: "Native and token balance of the agent's wallet.",
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    network: { type: 'string', description: 'CAIP-2 network id, e.g. eip155:84532 (default: the wallet network)' },
+                    asset: { type: 'string', description: 'ERC-20 token address to include' }
+                }
+            },
+            async call({ network, asset }) {
+                return agent.balance({ network, asset });
+            }
+        },
+        {
+            name: 'list_recent_payments',
+            description: 'Payments the agent made, most recent first, from its payment ledger.',
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    limit: { type: 'integer', minimum: 1, maximum: MAX_PAYMENTS_LISTED, description: 'Default 20' },
+                    merchant: { type: 'string', description: 'Only payments to this origin' }
+                }
+            },
+            async call({ limit = 20, merchant }) {
+                if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAYMENTS_LISTED) {
+                    throw new Error(`limit must be an integer from 1 to ${MAX_PAYMENTS_LISTED}`);
+                }
+                const entries = merchant ? agent.ledger.byMerchant(merchant) : agent.ledger.entries();
+                return { payments: entries.reverse().slice(0, limit) };
+            }
+        }
+    ];
+}
+
+export class AgentMcpServer {
+    readonly tools: McpTool[];
+    private name: string;
+    private version: string;
+    private log: (msg: string) => void;
+
+    constructor(agent: TransactionalAgent, options: AgentMcpServerOptions = {}) {
+        this.name = options.name || 'synergy-agent';
+        this.version = options.version || '1.0.0';
+        this.log = options.log || ((msg) => console.error(msg));
+        this.tools = createAgentTools(agent, this.log);
+    }
+
+    /**
+     * Handles one JSON-RPC message; resolves to the response, or null for notifications.
+     */
+    async handle(message: JsonRpcMessage): Promise<object | null> {
+        const id = message?.id ?? null;
+        const isNotification = message?.id === undefined;
+        try {
+            if (message?.jsonrpc !== '2.0' || typeof message.method !== 'string') {
+                throw new RpcError(INVALID_REQUEST, 'Invalid JSON-RPC request');
+            }
+            const result = await this.dispatch(message.method, message.params || {});
+            return isNotification ? null : { jsonrpc: '2.0', id, result };
+        } catch (e: any) {
+            if (isNotification) return null;
+            const code = e instanceof RpcError ? e.code : -32603;
+            return { jsonrpc: '2.0', id, error: { code, message: e.message } };
+        }
+    }
+
+    /**
+     * Serves newline-delimited JSON-RPC until the input ends.
+     */
+    listenStdio(input: NodeJS.ReadableStream = process.stdin, output: NodeJS.WritableStream = process.stdout): Promise<void> {
+        const lines = readline.createInterface({ input });
+        const pending = new Set<Promise<void>>();
+        lines.on('line', (line) => {
+            if (!line.trim()) return;
+            const done = this.handleRaw(line).then(response => {
+                if (response) output.write(JSON.stringify(response) + '\n');
+            }).finally(() => pending.delete(done));
+            pending.add(done);
+        });
+        this.log(`[MCP] 🔌 Serving ${this.tools.length} tools over stdio`);
+        return new Promise(resolve => lines.on('close', () => Promise.all(pending).then(() => resolve())));
+    }
+
+    /**
+     * Serves JSON-RPC over HTTP POST on `path` (default /mcp).
+     */
+    async listenHttp(options: McpHttpOptions = {}): Promise<{ url: string; close(): Promise<void> }> {
+        const path = options.path || '/mcp';
+        const host = options.host || '127.0.0.1';
+        // Filled in once listening (port 0 picks one)
+        const hosts = new Set<string>();
+        const origins = new Set((options.allowedOrigins || []).map(o => o.replace(/\/$/, '')));
+        const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+
+        const server = http.createServer(async (req, res) => {
+            if (new URL(req.url || '/', 'http://localhost').pathname !== path) {
+                res.writeHead(404).end();
+                return;
+            }
+            const refusal = this.checkHttpRequest(req, hosts, origins, options.token);
+            if (refusal) {
+                this.log(`[MCP] 🚫 Refused ${req.method} from ${req.headers.origin || req.socket.remoteAddress}: ${refusal.message}`);
+                res.writeHead(refusal.status, { 'Content-Type': 'application/json', ...refusal.headers });
+                res.end(JSON.stringify({ error: refusal.message }));
+                return;
+            }
+
+            const tooLarge = () => {
+                this.log(`[MCP] 🚫 Refused a body over ${maxBodyBytes} bytes`);
+                res.writeHead(413, { 'Content-Type': 'application/json', Connection: 'close' });
+                res.end(JSON.stringify({ error: `Body over ${maxBodyBytes} bytes` }));
+            };
+            if (Number(req.headers['content-length']) > maxBodyBytes) {
+                tooLarge();
+                return;
+            }
+
+            const chunks: Buffer[] = [];
+            let size = 0;
+            try {
+                for await (const chunk of req) {
+                    size += chunk.length;
+                    if (size > maxBodyBytes) {
+                        tooLarge();
+                        return;
+                    }
+                    chunks.push(chunk);
+                }
+            } catch (e: any) {
+                // The client went away mid-body: nothing to answer
+                this.log(`[MCP] ⚠️ Could not read request body: ${e.message}`);
+                res.destroy();
+                return;
+            }
+
+            const response = await this.handleRaw(Buffer.concat(chunks).toString('utf-8'));
+            if (!response) {
+                res.writeHead(202).end();
+                return;
+            }
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(response));
+        });
+
+        await new Promise<void>(resolve => server.listen(options.port ?? 0, host, resolve));
+        const { port } = server.address() as AddressInfo;
+        const loopback = ['127.0.0.1', 'localhost', '::1', '[::1]'].includes(host);
+        for (const name of loopback ? ['127.0.0.1', 'localhost', '[::1]'] : [host]) {
+            hosts.add(`${name}:${port}`);
+            origins.add(`http://${name}:${port}`);
+        }
+        const url = `http://${host}:${port}${path}`;
+        this.log(`[MCP] 🔌 Serving ${this.tools.length} tools at ${url}${options.token ? ' (bearer token required)' : ''}`);
+        return {
+            url,
+            close: () => new Promise<void>(resolve => server.close(() => resolve()))
+        };
+    }
+
+    /**
+     * Why an HTTP request may not reach the tools, or null when it may.
+     */
+    private checkHttpRequest(req: http.IncomingMessage, hosts: Set<string>, origins: Set<string>, token?: string): { status: number; message: string; headers?: Record<string, string> } | null {
+        if (req.method !== 'POST') {
+            return { status: 405, message: 'Only POST is supported', headers: { Allow: 'POST' } };
+        }
+        if (!hosts.has((req.headers.host || '').toLowerCase())) {
+            return { status: 403, message: `Host ${req.headers.host} not allowed` };
+        }
+        const origin = req.headers.origin;
+        if (origin !== undefined && !origins.has(origin)) {
+            return { status: 403, message: `Origin ${origin} not allowed` };
+        }
+        if (!/^application\/json\s*(;|$)/i.test(req.headers['content-type'] || '')) {
+            return { status: 415, message: 'Content-Type must be application/json' };
+        }
+        if (token !== undefined) {
+            const given = Buffer.from(/^Bearer (.+)$/i.exec(req.headers.authorization || '')?.[1] || '');
+            const expected = Buffer.from(token);
+            if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+                return { status: 401, message: 'Missing or invalid bearer token', headers: { 'WWW-Authenticate': 'Bearer' } };
+            }
+        }
+        return null;
+    }
+
+    private async handleRaw(raw: string): Promise<object | null> {
+        let message: JsonRpcMessage;
+        try {
+            message = JSON.parse(raw);
+        } catch {
+            return { jsonrpc: '2.0', id: null, error: { code: PARSE_ERROR, message: 'Parse error' } };
+        }
+        return this.handle(message);
+    }
+
+    private async dispatch(method: string, params: any): Promise<unknown> {
+        switch (method) {
+            case 'initialize':
+                return {
+                    protocolVersion: PROTOCOL_VERSIONS.includes(params.protocolVersion) ? params.protocolVersion : PROTOCOL_VERSIONS[0],
+                    capabilities: { tools: {} },
+                    serverInfo: { name: this.name, version: this.version }
+                };
+            case 'notifications/initialized':
+            case 'notifications/cancelled':
+                return {};
+            case 'ping':
+                return {};
+            case 'tools/list':
+                return { tools: this.tools.map(({ name, description, inputSchema }) => ({ name, description, inputSchema })) };
+            case 'tools/call':
+                return this.callTool(params.name, params.arguments || {});
+            default:
+                throw new RpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+        }
+    }
+
+    private async callTool(name: string, args: Record<string, any>) {
+        const tool = this.tools.find(t => t.name === name);
+        if (!tool) {
+            throw new RpcError(INVALID_PARAMS, `Unknown tool: ${name}`);
+        }
+
+        this.log(`[MCP] 🛠️ ${name} ${JSON.stringify(args)}`);
+        try {
+            const result = await tool.call(args);
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+                structuredContent: result,
+                isError: false
+            };
+        } catch (e: any) {
+            const error = e instanceof X402Error
+                ? { code: e.code, side: e.side, message: e.message }
+                : { code: 'ERROR', message: e?.message || String(e) };
+            this.log(`[MCP] ❌ ${name}: ${error.message}`);
+            return {
+                content: [{ type: 'text', text: JSON.stringify({ error }, null, 2) }],
+                structuredContent: { error },
+                isError: true
+            };
+        }
+    }
+}
+
+function requireMethod(method: unknown): HttpMethod | undefined {
+    if (method !== undefined && !FETCH_METHODS.includes(method as HttpMethod)) {
+        throw new Error(`method must be one of ${FETCH_METHODS.join(', ')}`);
+    }
+    return method as HttpMethod | undefined;
+}
+
+function requireUrl(url: unknown): string {
+    if (typeof url !== 'string' || !/^https?:\/\//.test(url)) {
+        throw new Error('url must be an absolute http(s) URL');
+    }
+    return url;
+}
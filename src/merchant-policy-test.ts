@@ -0,0 +1,194 @@
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { generatePrivateKey } from 'viem/accounts';
+import { TransactionalAgent, AgentConfig } from './agent';
+import { RealWallet, X402Client } from './x402/client';
+import type { PaymentEvent } from './x402/events';
+import { originMatches } from './x402/merchantPolicy';
+import { RawKeySigner } from './x402/signers';
+import { startStandInMerchant } from './testing/standInMerchant';
+
+/**
+ * Runs agents with a merchant policy against local stand-in merchants.
+ * A merchant off the allowlist, reached through an absolute URL or through a
+ * redirect from an allowed origin, is never called or paid. The allowed merchant is paid and its payTo pinned; when it comes back on
+ * the same origin with another payTo, the payment is refused as a possible hijack,
+ * then paid with a warning once the policy only warns. Without any policy, a
+ * redirect to another origin still never carries the signed payment or the
+ * Authorization header there. Runs fully offline.
+ */
+
+const PAY_TO = '0x000000000000000000000000000000000000dEaD';
+const HIJACKER = '0x00000000000000000000000000000000000bAd00';
+
+async function runMerchantPolicyTest() {
+    console.log("🚀 Starting Merchant Policy Test: allowlist and pinned payees");
+
+    const failures: string[] = [];
+    const patterns: [string, string, boolean][] = [
+        ['https://api.example.com', 'https://api.example.com', true],
+        ['https://api.example.com', 'http://api.example.com', false],
+        ['https://*.example.com', 'https://a.b.example.com', true],
+        ['https://*.example.com', 'https://example.com', false],
+        ['https://*.example.com', 'https://example.com.evil.io', false],
+        ['*.example.com', 'http://shop.example.com', true],
+        ['http://localhost:*', 'http://localhost:4021', true],
+        ['http://localhost', 'http://localhost:4021', false]
+    ];
+    for (const [pattern, origin, expected] of patterns) {
+        if (originMatches(pattern, origin) !== expected) {
+            failures.push(`${pattern} ${expected ? 'should' : 'should not'} match ${origin}`);
+        }
+    }
+
+    let merchant = await startStandInMerchant({ payTo: PAY_TO });
+    const stranger = await startStandInMerchant({ payTo: PAY_TO });
+    const port = Number(new URL(merchant.url).port);
+    // An allowed origin that redirects: /to-stranger/* to the stranger, anything else to the merchant
+    const redirector = http.createServer((req, res) => {
+        const target = req.url!.startsWith('/to-stranger') ? stranger.url : merchant.url;
+        res.writeHead(302, { Location: `${target}/api/premium` }).end();
+    });
+    await new Promise<void>(resolve => redirector.listen(0, '127.0.0.1', resolve));
+    const redirectorUrl = `http://127.0.0.1:${(redirector.address() as AddressInfo).port}`;
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'synergy-merchants-'));
+    const privateKey = generatePrivateKey();
+    const agentFor = (onPayToChange: 'block' | 'warn'): TransactionalAgent => new TransactionalAgent({
+        signer: new RawKeySigner(privateKey),
+        useRealWallet: true,
+        balanceCheck: false,
+        ledgerFile: path.join(dir, 'payments.jsonl'),
+        payeesFile: path.join(dir, 'payees.json'),
+        merchantPolicy: { allowedOrigins: [`http://127.0.0.1:${port}`, redirectorUrl], onPayToChange }
+    } satisfies AgentConfig);
+
+    try {
+        // The allowed merchant is paid and pinned; the stranger is never called. A payment
+        // sent to the redirector is not forwarded to the merchant it redirects to
+        const events: PaymentEvent[] = [];
+        const first = await agentFor('block').run(() => { }, {
+            tasks: [
+                { name: 'allowed', url: `${merchant.url}/api/premium`, onFailure: 'continue' },
+                { name: 'stranger', url: `${stranger.url}/api/premium`, onFailure: 'continue' },
+                { name: 'redirected away', url: `${redirectorUrl}/to-stranger`, onFailure: 'continue' },
+                { name: 'redirected in', url: `${redirectorUrl}/to-merchant`, onFailure: 'continue' }
+            ],
+            onEvent: (event) => events.push(event)
+        });
+        const [allowed, strange, away, redirectedIn] = first.tasks;
+        if (allowed?.status !== 'succeeded' || redirectedIn?.status !== 'failed' || merchant.settlements.length !== 1 || merchant.paidAttempts.length !== 1) {
+            failures.push(`allowed: ${allowed?.status}, redirected in: ${redirectedIn?.status}, ${merchant.settlements.length} settlements`);
+        }
+        if (away?.error?.code !== 'MERCHANT_NOT_TRUSTED' || !away.error.message.includes(stranger.url)) {
+            failures.push(`redirected to the stranger: ${JSON.stringify(away?.error)}`);
+        }
+        if (strange?.error?.code !== 'MERCHANT_NOT_TRUSTED' || !strange.error.message.includes('not on the allowlist')) {
+            failures.push(`stranger: ${JSON.stringify(strange?.error)}`);
+        }
+        if (stranger.paidAttempts.length !== 0 || events.some(e => e.url.startsWith(stranger.url) && e.type === 'quoteReceived')) {
+            failures.push('the stranger was called');
+        }
+        const pinned = JSON.parse(fs.readFileSync(path.join(dir, 'payees.json'), 'utf-8'));
+        // Pinned under the origin that asked to be paid, not the one that redirected
+        if (pinned[merchant.url]?.['eip155:84532']?.payTo !== PAY_TO || pinned[redirectorUrl]) {
+            failures.push(`pinned payees: ${JSON.stringify(pinned)}`);
+        }
+
+        // Same origin, new payTo: refused before signing, and the quote selects nothing
+        await merchant.close();
+        // Let fetch see its pooled keep-alive connection closed before reusing the port
+        await new Promise(resolve => setTimeout(resolve, 100));
+        merchant = await startStandInMerchant({ payTo: HIJACKER, port });
+        const blocked: PaymentEvent[] = [];
+        const guarded = agentFor('block');
+        const second = await guarded.run(() => { }, {
+            tasks: [{ name: 'hijacked', url: `${merchant.url}/api/premium`, onFailure: 'continue' }],
+            onEvent: (event) => blocked.push(event)
+        });
+        const hijacked = second.tasks[0];
+        if (hijacked?.error?.code !== 'MERCHANT_NOT_TRUSTED' || !hijacked.error.message.includes('Possible hijack')) {
+            failures.push(`hijacked: ${JSON.stringify(hijacked?.error)}`);
+        }
+        const alarm = blocked.find(e => e.type === 'payeeChanged');
+        if (alarm?.type !== 'payeeChanged' || alarm.action !== 'blocked' || alarm.previousPayTo !== PAY_TO || alarm.payTo !== HIJACKER) {
+            failures.push(`payeeChanged when blocking: ${JSON.stringify(alarm)}`);
+        }
+        if (blocked.some(e => e.type === 'signing') || merchant.paidAttempts.length !== 0) {
+            failures.push('the changed payee was signed for');
+        }
+        const quote = await guarded.quote(`${merchant.url}/api/premium`);
+        if (quote.selected !== null || !quote.reason?.includes('Possible hijack')) {
+            failures.push(`quote: selected ${JSON.stringify(quote.selected)}, reason ${quote.reason}`);
+        }
+        const refused = await guarded.quote(`${stranger.url}/api/premium`).then(() => null, (e) => e);
+        if (refused?.code !== 'MERCHANT_NOT_TRUSTED') {
+            failures.push(`quoting the stranger: ${refused?.message ?? 'no error'}`);
+        }
+
+        // Warn only: paid, reported, and the new payTo pinned
+        const warned: PaymentEvent[] = [];
+        const third = await agentFor('warn').run(() => { }, {
+            tasks: [{ name: 'warned', url: `${merchant.url}/api/premium` }],
+            onEvent: (event) => warned.push(event)
+        });
+        const warning = warned.find(e => e.type === 'payeeChanged');
+        if (!third.ok || merchant.settlements.length !== 1 || warning?.type !== 'payeeChanged' || warning.action !== 'warned') {
+            failures.push(`warn: ok ${third.ok}, ${merchant.settlements.length} settlements, event ${JSON.stringify(warning)}`);
+        }
+        const repinned = JSON.parse(fs.readFileSync(path.join(dir, 'payees.json'), 'utf-8'))[merchant.url]?.['eip155:84532'];
+        if (repinned?.payTo !== HIJACKER || repinned.previousPayTo !== PAY_TO) {
+            failures.push(`re-pinned payee: ${JSON.stringify(repinned)}`);
+        }
+
+        // No policy: the redirect to the stranger is followed, but without the payment
+        // or the Authorization header meant for the redirector
+        const seen: (string | undefined)[] = [];
+        const recorder = http.createServer((req, res) => {
+            seen.push(req.headers.authorization);
+            res.writeHead(200, { 'Content-Type': 'application/json' }).end('{}');
+        });
+        await new Promise<void>(resolve => recorder.listen(0, '127.0.0.1', resolve));
+        const recorderUrl = `http://127.0.0.1:${(recorder.address() as AddressInfo).port}`;
+        const hopper = http.createServer((req, res) => {
+            const target = req.url!.startsWith('/to-recorder') ? recorderUrl : stranger.url;
+            res.writeHead(307, { Location: `${target}/api/premium` }).end();
+        });
+        await new Promise<void>(resolve => hopper.listen(0, '127.0.0.1', resolve));
+        const hopperUrl = `http://127.0.0.1:${(hopper.address() as AddressInfo).port}`;
+        try {
+            const open = new X402Client(hopperUrl, new RealWallet(privateKey), () => { }, { balanceCheck: false, retry: false });
+            await open.get('/to-recorder', { headers: { Authorization: 'Bearer for-the-hopper' } });
+            if (seen.length !== 1 || seen[0] !== undefined) {
+                failures.push(`Authorization forwarded across origins: ${JSON.stringify(seen)}`);
+            }
+            const unpaid = await open.get('/to-stranger').then(() => null, (e) => e);
+            if (!unpaid || stranger.paidAttempts.length !== 0) {
+                failures.push(`payment forwarded across origins: ${unpaid?.message ?? 'paid'}, ${stranger.paidAttempts.length} paid attempts at the stranger`);
+            }
+        } finally {
+            await new Promise(resolve => hopper.close(resolve));
+            await new Promise(resolve => recorder.close(resolve));
+        }
+    } finally {
+        await merchant.close();
+        await stranger.close();
+        await new Promise(resolve => redirector.close(resolve));
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+
+    console.log("---------------------------------------------------");
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`❌ ${f}`));
+        console.error(`❌ MERCHANT POLICY TEST FAILED (${failures.length} problems)`);
+        process.exit(1);
+    }
+    console.log("🎉 MERCHANT POLICY TEST PASSED: untrusted merchants never paid, payTo changes caught");
+}
+
+runMerchantPolicyTest().catch((error) => {
+    console.error("❌ Test Failed:", error.message || error);
+    process.exit(1);
+});
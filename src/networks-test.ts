@@ -0,0 +1,70 @@
+import type { PaymentRequirements } from '@x402/core/types';
+import { NETWORKS, explorerAddressUrl, explorerTxUrl, findToken, getToken, networkIds, tokenPrice } from './x402/networks';
+import { isKnownStablecoin, priceInUsd } from './x402/selection';
+
+/**
+ * Checks the network registry: every network is complete and consistent with its
+ * viem chain, tokens resolve by symbol or address, explorer templates expand, and
+ * registered tokens are priced whatever their EIP-712 name, unregistered ones never.
+ * Runs offline.
+ */
+
+async function runNetworksTest() {
+    console.log("🚀 Starting Networks Test: CAIP-2 network and asset registry");
+
+    const failures: string[] = [];
+    const check = (what: string, actual: unknown, expected: unknown) => {
+        if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+            failures.push(`${what}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+        }
+    };
+
+    // 1. Every entry is keyed by its chain's CAIP-2 id and has a USDC
+    for (const [id, info] of Object.entries(NETWORKS)) {
+        check(`${id} key`, info.id, id);
+        check(`${id} chain id`, `eip155:${info.chain.id}`, id);
+        check(`${id} native currency`, info.nativeCurrency.decimals, 18);
+        if (!findToken(id, 'USDC')) failures.push(`${id}: no USDC`);
+    }
+    check('testnets', networkIds({ testnet: true }), ['eip155:84532', 'eip155:11155111']);
+    check('all networks', networkIds().length, Object.keys(NETWORKS).length);
+
+    // 2. Lookups
+    const sepoliaUsdc = getToken('eip155:11155111', 'usdc');
+    check('token by symbol', sepoliaUsdc.address, '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238');
+    check('token by address', findToken('eip155:11155111', sepoliaUsdc.address.toLowerCase())?.symbol, 'USDC');
+    check('unknown token', findToken('eip155:84532', '0x0000000000000000000000000000000000000001'), undefined);
+    check('unknown network', findToken('eip155:999', 'USDC'), undefined);
+    check('x402 price', tokenPrice('eip155:84532', 'USDC', '10000'),
+        { asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e', amount: '10000', extra: { name: 'USDC', version: '2' } });
+    check('tx url', explorerTxUrl('eip155:8453', '0xabc'), 'https://basescan.org/tx/0xabc');
+    check('address url', explorerAddressUrl('eip155:137', '0xdef'), 'https://polygonscan.com/address/0xdef');
+    check('tx url, unknown network', explorerTxUrl('eip155:999', '0xabc'), undefined);
+
+    // 3. Pricing uses the registry, never the EIP-712 name
+    const option = (network: string, asset: string, name: string) => ({
+        scheme: 'exact', network, asset, amount: '250000', payTo: '0x000000000000000000000000000000000000dEaD',
+        maxTimeoutSeconds: 60, extra: { name, version: '2' }
+    }) as PaymentRequirements;
+    const baseUsdc = getToken('eip155:8453', 'USDC').address;
+    check('registered, odd name', priceInUsd(option('eip155:8453', baseUsdc, 'Whatever')), 0.25);
+    check('registered stablecoin', isKnownStablecoin(option('eip155:8453', baseUsdc, 'Whatever')), true);
+    check('unregistered, stablecoin name', priceInUsd(option('eip155:8453', '0x0000000000000000000000000000000000000001', 'USDC')), null);
+    check('unregistered, not a known stablecoin', isKnownStablecoin(option('eip155:8453', '0x0000000000000000000000000000000000000001', 'USD Coin')), false);
+    check('unregistered, explicit price', priceInUsd(option('eip155:8453', '0x0000000000000000000000000000000000000001', 'Points'),
+        { '0x0000000000000000000000000000000000000001': { decimals: 6, usd: 2 } }), 0.5);
+    check('unregistered, unknown name', priceInUsd(option('eip155:8453', '0x0000000000000000000000000000000000000001', 'Points')), null);
+
+    console.log("---------------------------------------------------");
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`❌ ${f}`));
+        console.error(`❌ NETWORKS TEST FAILED (${failures.length} problems)`);
+        process.exit(1);
+    }
+    console.log("🎉 NETWORKS TEST PASSED: chains, tokens and explorers resolve from one registry");
+}
+
+runNetworksTest().catch((error) => {
+    console.error("❌ Test Failed:", error.message || error);
+    process.exit(1);
+});
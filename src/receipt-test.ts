@@ -0,0 +1,93 @@
+import { x402Client, x402HTTPClient } from '@x402/core/client';
+import { encodePaymentResponseHeader } from '@x402/core/http';
+import type { PaymentRequirements } from '@x402/core/types';
+import { decodePaymentReceipt } from './x402/receipt';
+
+/**
+ * Decodes PAYMENT-RESPONSE headers into receipts: the transaction, network and
+ * payer come from the header, the amount, asset and payTo from the requirements
+ * we paid (the header carries no amount, and one a merchant adds is ignored).
+ * A missing, unreadable, unsuccessful or transaction-less header gives no receipt.
+ * Runs offline.
+ */
+
+const PAYER = '0x1111111111111111111111111111111111111111';
+const TX = `0x${'ab'.repeat(32)}`;
+
+const requirements = {
+    scheme: 'exact',
+    network: 'eip155:84532',
+    asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+    amount: '10000',
+    payTo: '0x000000000000000000000000000000000000dEaD',
+    maxTimeoutSeconds: 300,
+    extra: { name: 'USDC', version: '2' }
+} as PaymentRequirements;
+
+function headersWith(settle: object | string | null): Headers {
+    const headers = new Headers({ 'Content-Type': 'application/json' });
+    if (typeof settle === 'string') {
+        headers.set('PAYMENT-RESPONSE', settle);
+    } else if (settle) {
+        headers.set('PAYMENT-RESPONSE', encodePaymentResponseHeader(settle as any));
+    }
+    return headers;
+}
+
+async function runReceiptTest() {
+    console.log("🚀 Starting Receipt Test: PAYMENT-RESPONSE decoding");
+
+    const failures: string[] = [];
+    const httpClient = new x402HTTPClient(new x402Client());
+    const decode = (headers: Headers, paid: PaymentRequirements | null = requirements) => decodePaymentReceipt(httpClient, headers, paid, PAYER);
+    const check = (what: string, actual: unknown, expected: unknown) => {
+        if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+            failures.push(`${what}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+        } else {
+            console.log(`✅ ${what}`);
+        }
+    };
+
+    const payer = '0x2222222222222222222222222222222222222222';
+    check('full header', decode(headersWith({ success: true, transaction: TX, network: 'eip155:8453', payer })), {
+        transaction: TX,
+        network: 'eip155:8453',
+        payer,
+        amount: '10000',
+        asset: requirements.asset,
+        payTo: requirements.payTo,
+        source: 'header'
+    });
+    check('amount from the requirements, not the header',
+        decode(headersWith({ success: true, transaction: TX, network: 'eip155:84532', payer, amount: '999999' }))?.amount, '10000');
+    check('no payer or network in the header',
+        decode(headersWith({ success: true, transaction: TX })), {
+            transaction: TX,
+            network: 'eip155:84532',
+            payer: PAYER,
+            amount: '10000',
+            asset: requirements.asset,
+            payTo: requirements.payTo,
+            source: 'header'
+        });
+    const unpaid = decode(headersWith({ success: true, transaction: TX, network: 'eip155:84532' }), null);
+    check('no requirements', [unpaid?.transaction, unpaid?.amount, unpaid?.payTo], [TX, undefined, undefined]);
+
+    check('no header', decode(headersWith(null)), null);
+    check('unreadable header', decode(headersWith('not base64 json')), null);
+    check('unsuccessful settlement', decode(headersWith({ success: false, errorReason: 'insufficient_funds', transaction: '', network: 'eip155:84532' })), null);
+    check('no transaction', decode(headersWith({ success: true, network: 'eip155:84532' })), null);
+
+    console.log("---------------------------------------------------");
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`❌ ${f}`));
+        console.error(`❌ RECEIPT TEST FAILED (${failures.length} problems)`);
+        process.exit(1);
+    }
+    console.log("🎉 RECEIPT TEST PASSED: receipts decoded from the header and the paid requirements");
+}
+
+runReceiptTest().catch((error) => {
+    console.error("❌ Test Failed:", error.message || error);
+    process.exit(1);
+});
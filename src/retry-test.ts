@@ -0,0 +1,122 @@
+import { generatePrivateKey } from 'viem/accounts';
+import { RealWallet, X402Client } from './x402/client';
+import { BudgetGuard } from './x402/budget';
+import type { PaymentEventOf } from './x402/events';
+import { PaymentLedger } from './x402/ledger';
+import { startStandInMerchant } from './testing/standInMerchant';
+
+/**
+ * Makes a local stand-in merchant fail the paid request (a 503, then a dropped
+ * connection) and checks that the client retries with the SAME signed payment:
+ * one signature, one nonce across all attempts, one settlement. A paid request
+ * that still ends in a 5xx may have settled: it stays counted against the budget
+ * and is recorded as unknown, and so does one whose resent payment is refused for
+ * its nonce after the first attempt settled. Runs fully offline.
+ */
+
+async function runRetryTest() {
+    console.log("🚀 Starting Retry Test: flaky merchant after the payment was signed");
+
+    const merchant = await startStandInMerchant({
+        payTo: '0x000000000000000000000000000000000000dEaD',
+        paidFailures: ['http-503', 'connection-reset']
+    });
+    const down = await startStandInMerchant({
+        payTo: '0x000000000000000000000000000000000000dEaD',
+        paidFailures: ['http-503', 'http-503']
+    });
+    const dropped = await startStandInMerchant({
+        payTo: '0x000000000000000000000000000000000000dEaD',
+        paidFailures: ['settle-then-reset']
+    });
+    const failures: string[] = [];
+    let signatures = 0;
+
+    try {
+        const client = new X402Client(merchant.url, new RealWallet(generatePrivateKey()), (msg) => {
+            if (msg.includes('🔁')) console.log(msg);
+        }, { balanceCheck: false, retry: { retries: 3, initialDelayMs: 50 } });
+        client.events.on('signing', () => signatures++);
+
+        const response = await client.post('/api/premium', { order: 42 });
+
+        if (response.status !== 200 || !response.receipt) {
+            failures.push(`expected a paid 200 with receipt, got ${response.status}`);
+        }
+        if (signatures !== 1) {
+            failures.push(`signed ${signatures} authorizations, expected 1`);
+        }
+        if (merchant.paidAttempts.length !== 3 || new Set(merchant.paidAttempts).size !== 1) {
+            failures.push(`paid attempts ${JSON.stringify(merchant.paidAttempts)}, expected the same nonce 3 times`);
+        }
+        if (merchant.settlements.length !== 1) {
+            failures.push(`merchant settled ${merchant.settlements.length} payments, expected 1`);
+        }
+        if (JSON.parse(response.data.body).order !== 42) {
+            failures.push('retried request did not resend the body');
+        }
+
+        // Still a 503 after the last retry: possibly settled, so the spend is kept
+        const budget = new BudgetGuard({ dailyUsd: 1 });
+        const ledger = new PaymentLedger();
+        const flaky = new X402Client(down.url, new RealWallet(generatePrivateKey()), () => { }, {
+            balanceCheck: false, retry: { retries: 1, initialDelayMs: 50 }, budget, ledger
+        });
+        let failed: PaymentEventOf<'failed'> | undefined;
+        flaky.events.on('failed', (e) => failed = e);
+        const error = await flaky.get('/api/premium').then(() => null, (e) => e);
+        if (error?.code !== 'MERCHANT_ERROR' || error.status !== 503 || down.paidAttempts.length !== 2) {
+            failures.push(`paid 503: ${error?.message ?? 'no error'} after ${down.paidAttempts.length} attempts`);
+        }
+        if (!failed?.paymentSent || !failed.possiblySettled) {
+            failures.push(`paid 503: failed event ${JSON.stringify(failed)}`);
+        }
+        if (budget.spent().length !== 1) {
+            failures.push(`paid 503: ${budget.spent().length} spend records, expected the reservation kept`);
+        }
+        const entry = ledger.entries()[0];
+        if (entry?.status !== 'unknown' || entry.error?.code !== 'MERCHANT_ERROR') {
+            failures.push(`paid 503: ledger entry ${JSON.stringify(entry)}`);
+        }
+
+        // Settled, then the connection dropped: the resent payment is refused as a used nonce
+        const droppedBudget = new BudgetGuard({ dailyUsd: 1 });
+        const droppedLedger = new PaymentLedger();
+        const resending = new X402Client(dropped.url, new RealWallet(generatePrivateKey()), () => { }, {
+            balanceCheck: false, retry: { retries: 1, initialDelayMs: 50 }, budget: droppedBudget, ledger: droppedLedger
+        });
+        let refused: PaymentEventOf<'failed'> | undefined;
+        resending.events.on('failed', (e) => refused = e);
+        const nonceError = await resending.get('/api/premium').then(() => null, (e) => e);
+        if (nonceError?.code !== 'VERIFICATION_FAILED' || !nonceError.possiblySettled || dropped.settlements.length !== 1 || dropped.paidAttempts.length !== 2) {
+            failures.push(`nonce refused: ${nonceError?.message ?? 'no error'}, ${dropped.settlements.length} settlements after ${dropped.paidAttempts.length} attempts`);
+        }
+        if (!refused?.possiblySettled) {
+            failures.push(`nonce refused: failed event ${JSON.stringify(refused)}`);
+        }
+        if (droppedBudget.spent().length !== 1) {
+            failures.push(`nonce refused: ${droppedBudget.spent().length} spend records, expected the reservation kept`);
+        }
+        const droppedEntry = droppedLedger.entries()[0];
+        if (droppedEntry?.status !== 'unknown' || droppedEntry.error?.code !== 'VERIFICATION_FAILED') {
+            failures.push(`nonce refused: ledger entry ${JSON.stringify(droppedEntry)}`);
+        }
+    } finally {
+        await merchant.close();
+        await down.close();
+        await dropped.close();
+    }
+
+    console.log("---------------------------------------------------");
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`❌ ${f}`));
+        console.error(`❌ RETRY TEST FAILED (${failures.length} problems)`);
+        process.exit(1);
+    }
+    console.log("🎉 RETRY TEST PASSED: 3 attempts, 1 signature, 1 settlement");
+}
+
+runRetryTest().catch((error) => {
+    console.error("❌ Test Failed:", error.message || error);
+    process.exit(1);
+});
@@ -0,0 +1,119 @@
+import type { PaymentRequirements } from '@x402/core/types';
+import { getToken } from './x402/networks';
+import {
+    SelectionContext,
+    allowlist,
+    cheapestUsd,
+    composePolicies,
+    createSelectionPolicy,
+    heldAssets,
+    maxPrice,
+    preferredNetworks,
+    selectPaymentOption
+} from './x402/selection';
+
+/**
+ * Runs the selection policies over one 402's options: USDC on Base Sepolia,
+ * Base and Polygon at different prices, and a token no registry knows. Checks the
+ * order each policy leaves, what it drops, and that composed policies apply in
+ * turn and stop once nothing is left. Runs offline.
+ */
+
+const BASE_SEPOLIA = getToken('eip155:84532', 'USDC').address;
+const BASE = getToken('eip155:8453', 'USDC').address;
+const POLYGON = getToken('eip155:137', 'USDC').address;
+// Unregistered, though it calls itself USDC
+const POINTS = '0x0000000000000000000000000000000000000001';
+
+function option(network: string, asset: string, amount: string, name = 'USDC'): PaymentRequirements {
+    return {
+        scheme: 'exact', network, asset, amount, payTo: '0x000000000000000000000000000000000000dEaD',
+        maxTimeoutSeconds: 60, extra: { name, version: '2' }
+    } as PaymentRequirements;
+}
+
+const sepolia = option('eip155:84532', BASE_SEPOLIA, '30000');
+const base = option('eip155:8453', BASE, '10000', 'USD Coin');
+const polygon = option('eip155:137', POLYGON, '20000', 'USD Coin');
+const points = option('eip155:8453', POINTS, '1');
+const OFFERED = [sepolia, base, polygon, points];
+
+// The payer holds 0.025 of each USDC and nothing of the unregistered token
+const ctx: SelectionContext = {
+    payer: '0x1111111111111111111111111111111111111111',
+    readBalance: async (o) => {
+        if (o.asset === POINTS) throw new Error('no contract');
+        return 25_000n;
+    }
+};
+
+const label = (options: PaymentRequirements[]) => options.map(o => o === points ? 'points' : o.network);
+
+async function runSelectionTest() {
+    console.log("🚀 Starting Selection Test: payment option policies");
+
+    const failures: string[] = [];
+    const check = (what: string, actual: unknown, expected: unknown) => {
+        if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+            failures.push(`${what}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+        } else {
+            console.log(`✅ ${what}: ${JSON.stringify(actual)}`);
+        }
+    };
+
+    // cheapestUsd: priced options by price, the unpriced one last; explicit prices count
+    check('cheapestUsd', label((await cheapestUsd().apply(OFFERED, ctx)).options),
+        ['eip155:8453', 'eip155:137', 'eip155:84532', 'points']);
+    check('cheapestUsd with a price for points', label((await cheapestUsd({ [POINTS]: { decimals: 0, usd: 0.001 } }).apply(OFFERED, ctx)).options),
+        ['points', 'eip155:8453', 'eip155:137', 'eip155:84532']);
+
+    // preferredNetworks: listed networks first, in list order, the rest kept after them
+    const preferred = await preferredNetworks(['eip155:137', 'eip155:84532']).apply(OFFERED, ctx);
+    check('preferredNetworks', label(preferred.options), ['eip155:137', 'eip155:84532', 'eip155:8453', 'points']);
+    check('preferredNetworks, none offered', (await preferredNetworks(['eip155:1']).apply(OFFERED, ctx)).reason, 'no preferred network offered');
+
+    // allowlist: by network, by asset address or EIP-712 name, or both
+    check('allowlist networks', label((await allowlist({ networks: ['eip155:8453'] }).apply(OFFERED, ctx)).options), ['eip155:8453', 'points']);
+    check('allowlist asset address', label((await allowlist({ assets: [POLYGON.toUpperCase().replace('0X', '0x')] }).apply(OFFERED, ctx)).options), ['eip155:137']);
+    check('allowlist both', label((await allowlist({ networks: ['eip155:8453'], assets: ['USD Coin'] }).apply(OFFERED, ctx)).options), ['eip155:8453']);
+
+    // maxPrice: drops dearer options and anything it cannot price
+    check('maxPrice $0.02', label((await maxPrice(0.02).apply(OFFERED, ctx)).options), ['eip155:8453', 'eip155:137']);
+    check('maxPrice $0.001', (await maxPrice(0.001).apply(OFFERED, ctx)).options, []);
+    check('maxPrice, garbled amount', (await maxPrice(1).apply([{ ...base, amount: 'ten cents' }], ctx)).options, []);
+
+    // heldAssets: drops what the balance cannot cover, and unreadable balances
+    check('heldAssets', label((await heldAssets().apply(OFFERED, ctx)).options), ['eip155:8453', 'eip155:137']);
+
+    // composePolicies: each policy sees what the previous one kept
+    const composed = composePolicies(heldAssets(), preferredNetworks(['eip155:137']), cheapestUsd());
+    const decision = await selectPaymentOption(composed, OFFERED, ctx);
+    check('composed name', composed.name, 'heldAssets > preferredNetworks > cheapestUsd');
+    check('composed choice', decision && label([decision.option]), ['eip155:8453']);
+    check('composed reason', decision?.reason.split('; ').map(r => r.split(':')[0]), ['heldAssets', 'preferredNetworks', 'cheapestUsd']);
+
+    // ...and stops at the first policy that leaves nothing
+    let reached = false;
+    const spy = { name: 'spy', apply: async (options: PaymentRequirements[]) => { reached = true; return { options, reason: 'seen' }; } };
+    const nothing = await selectPaymentOption(composePolicies(maxPrice(0.001), spy), OFFERED, ctx);
+    check('composed, nothing left', nothing, null);
+    check('composed, later policy skipped', reached, false);
+
+    // The declarative form builds the same chain
+    const configured = createSelectionPolicy([{ strategy: 'allowlist', networks: ['eip155:8453', 'eip155:137'] }, { strategy: 'maxPrice', usd: 0.015 }]);
+    check('createSelectionPolicy', label((await configured.apply(OFFERED, ctx)).options), ['eip155:8453']);
+    check('default policy', label((await createSelectionPolicy().apply(OFFERED, ctx)).options), ['eip155:84532', 'eip155:8453', 'eip155:137', 'points']);
+
+    console.log("---------------------------------------------------");
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`❌ ${f}`));
+        console.error(`❌ SELECTION TEST FAILED (${failures.length} problems)`);
+        process.exit(1);
+    }
+    console.log("🎉 SELECTION TEST PASSED: policies order, filter and compose as documented");
+}
+
+runSelectionTest().catch((error) => {
+    console.error("❌ Test Failed:", error.message || error);
+    process.exit(1);
+});
@@ -0,0 +1,78 @@
+import { generatePrivateKey } from 'viem/accounts';
+import { X402Client, Signer } from './x402/client';
+import { KeystoreSigner, RawKeySigner, RemoteSigner, encryptKeystore } from './x402/signers';
+import { startStandInMerchant } from './testing/standInMerchant';
+import { startStandInRemoteSigner } from './testing/standInRemoteSigner';
+
+/**
+ * Pays a local stand-in merchant once with each signer backend (raw key, encrypted
+ * keystore, remote signer) and checks that the payment came from that signer's
+ * address. Also checks that a wrong passphrase / token is refused. Runs fully offline.
+ */
+
+async function runSignerTest() {
+    console.log("🚀 Starting Signer Test: raw key, keystore and remote signer");
+
+    const merchant = await startStandInMerchant({ payTo: '0x000000000000000000000000000000000000dEaD' });
+    const remote = await startStandInRemoteSigner({ privateKey: generatePrivateKey(), token: 'test-token' });
+    const failures: string[] = [];
+
+    try {
+        // Light scrypt parameters keep the test fast; real keystores use the default
+        const keystore = encryptKeystore(generatePrivateKey(), 'correct horse', { n: 4096 });
+
+        const signers: Signer[] = [
+            new RawKeySigner(generatePrivateKey()),
+            KeystoreSigner.fromJson(keystore, 'correct horse'),
+            await RemoteSigner.connect(remote.url, { token: 'test-token' })
+        ];
+
+        for (const signer of signers) {
+            const client = new X402Client(merchant.url, signer, () => { }, { balanceCheck: false });
+            try {
+                const response = await client.get(`/api/premium/${signer.kind}`);
+                if (response.receipt?.payer.toLowerCase() !== signer.address.toLowerCase()) {
+                    failures.push(`${signer.kind}: paid by ${response.receipt?.payer}, expected ${signer.address}`);
+                } else {
+                    console.log(`✅ ${signer.kind}: paid from ${signer.address}`);
+                }
+            } catch (e: any) {
+                failures.push(`${signer.kind}: ${e.message}`);
+            }
+        }
+
+        if (remote.signed.length !== 1) {
+            failures.push(`remote signer signed ${remote.signed.length} requests, expected 1`);
+        }
+
+        try {
+            KeystoreSigner.fromJson(keystore, 'wrong passphrase');
+            failures.push('keystore: wrong passphrase was accepted');
+        } catch {
+            console.log('✅ keystore: wrong passphrase refused');
+        }
+
+        try {
+            await RemoteSigner.connect(remote.url, { token: 'wrong-token' });
+            failures.push('remote: wrong token was accepted');
+        } catch {
+            console.log('✅ remote: wrong token refused');
+        }
+    } finally {
+        await remote.close();
+        await merchant.close();
+    }
+
+    console.log("---------------------------------------------------");
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`❌ ${f}`));
+        console.error(`❌ SIGNER TEST FAILED (${failures.length} problems)`);
+        process.exit(1);
+    }
+    console.log("🎉 SIGNER TEST PASSED: every backend paid with its own key");
+}
+
+runSignerTest().catch((error) => {
+    console.error("❌ Test Failed:", error.message || error);
+    process.exit(1);
+});
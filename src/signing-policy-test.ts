@@ -0,0 +1,93 @@
+import type { PaymentRequirements } from '@x402/core/types';
+import { checkTransferAuthorization, TypedDataRequest } from './x402/signingPolicy';
+
+/**
+ * Checks the signing policy against a valid TransferWithAuthorization for a
+ * selected option and against variants with one field changed: another primary
+ * type, payer, payee, value, token contract or chain, and validBefore in the past
+ * or beyond the allowed window. Only the valid request may be signed.
+ */
+
+const NOW = 1_700_000_000;
+const PAYER = '0x1111111111111111111111111111111111111111';
+const PAY_TO = '0x000000000000000000000000000000000000dEaD';
+const USDC = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+
+const requirements = {
+    scheme: 'exact',
+    network: 'eip155:84532',
+    asset: USDC,
+    amount: '10000',
+    payTo: PAY_TO,
+    maxTimeoutSeconds: 300,
+    extra: { name: 'USDC', version: '2' }
+} as PaymentRequirements;
+
+function request(change: { domain?: object; message?: object; primaryType?: string } = {}): TypedDataRequest {
+    return {
+        domain: { name: 'USDC', version: '2', chainId: 84532, verifyingContract: USDC, ...change.domain },
+        types: {},
+        primaryType: change.primaryType ?? 'TransferWithAuthorization',
+        message: {
+            from: PAYER,
+            to: PAY_TO,
+            value: 10000n,
+            validAfter: 0n,
+            validBefore: BigInt(NOW + 300),
+            nonce: `0x${'ab'.repeat(32)}`,
+            ...change.message
+        }
+    };
+}
+
+async function runSigningPolicyTest() {
+    console.log("🚀 Starting Signing Policy Test: only the selected transfer is signed");
+
+    const failures: string[] = [];
+    const check = (req: TypedDataRequest, options = {}) => checkTransferAuthorization(req, requirements, PAYER, options, NOW);
+
+    const allowed: [string, string | null][] = [
+        ['the selected transfer', check(request())],
+        ['addresses in another case', check(request({ message: { to: PAY_TO.toLowerCase() }, domain: { verifyingContract: USDC.toUpperCase().replace('0X', '0x') } }))],
+        ['validBefore exactly at the window', check(request({ message: { validBefore: BigInt(NOW + 600) } }), { maxValidityWindowSeconds: 600 })]
+    ];
+    for (const [label, violation] of allowed) {
+        if (violation !== null) failures.push(`${label}: refused (${violation})`);
+    }
+
+    const refused: [string, string | null, string][] = [
+        ['no option selected', checkTransferAuthorization(request(), null, PAYER, {}, NOW), 'no payment option'],
+        ['another primaryType', check(request({ primaryType: 'Permit' })), 'refusing to sign Permit'],
+        ['no primaryType', check({ ...request(), primaryType: undefined }), 'refusing to sign unknown'],
+        ['another payer', check(request({ message: { from: '0x2222222222222222222222222222222222222222' } })), 'is not our address'],
+        ['another payee', check(request({ message: { to: '0x00000000000000000000000000000000000bAd00' } })), 'does not match payTo'],
+        ['a malformed payee', check(request({ message: { to: 'not-an-address' } })), 'does not match payTo'],
+        ['a higher value', check(request({ message: { value: 10001n } })), 'does not match amount'],
+        ['another token contract', check(request({ domain: { verifyingContract: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' } })), 'verifying contract'],
+        ['another chain', check(request({ domain: { chainId: 8453 } })), 'chainId 8453 does not match'],
+        ['validBefore in the past', check(request({ message: { validBefore: BigInt(NOW) } })), 'is not in the future'],
+        ['validBefore missing', check(request({ message: { validBefore: undefined } })), 'is not in the future'],
+        ['validBefore past the default hour', check(request({ message: { validBefore: BigInt(NOW + 3601) } })), 'more than the allowed 3600s'],
+        ['validBefore past a configured window', check(request(), { maxValidityWindowSeconds: 60 }), 'more than the allowed 60s']
+    ];
+    for (const [label, violation, expected] of refused) {
+        if (!violation?.includes(expected)) {
+            failures.push(`${label}: ${violation === null ? 'allowed' : `refused with "${violation}"`}, expected "${expected}"`);
+        } else {
+            console.log(`✅ ${label}: ${violation}`);
+        }
+    }
+
+    console.log("---------------------------------------------------");
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`❌ ${f}`));
+        console.error(`❌ SIGNING POLICY TEST FAILED (${failures.length} problems)`);
+        process.exit(1);
+    }
+    console.log("🎉 SIGNING POLICY TEST PASSED: every field of the authorization is checked");
+}
+
+runSigningPolicyTest().catch((error) => {
+    console.error("❌ Test Failed:", error.message || error);
+    process.exit(1);
+});
@@ -0,0 +1,82 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { generatePrivateKey } from 'viem/accounts';
+import { GET } from './app/api/stream/route';
+import type { StreamLine } from './app/api/stream/route';
+import { startStandInMerchant } from './testing/standInMerchant';
+
+/**
+ * Calls the dashboard's /api/stream route handler against a local stand-in
+ * merchant, configured through the environment as the CLI would be. Checks that
+ * its agent pays the configured MERCHANT_URL, keeps its files in SYNERGY_DIR and
+ * is held to the configured per-request budget. Runs fully offline.
+ */
+
+async function streamRun(): Promise<StreamLine[]> {
+    const response = await GET(new Request('http://localhost/api/stream'));
+    const text = await response.text();
+    return text.split('\n').filter(Boolean).map(line => JSON.parse(line));
+}
+
+async function runStreamRouteTest() {
+    console.log("🚀 Starting Stream Route Test: the dashboard agent uses the shared config");
+
+    const merchant = await startStandInMerchant({ payTo: '0x000000000000000000000000000000000000dEaD' });
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'synergy-stream-'));
+    const failures: string[] = [];
+
+    Object.assign(process.env, {
+        PRIVATE_KEY: generatePrivateKey(),
+        REMOTE_SIGNER_URL: '',
+        KEYSTORE_PATH: '',
+        MERCHANT_URL: merchant.url,
+        SYNERGY_DIR: dir,
+        // Offline: no RPC to check balances against
+        AGENT_RPC_URL: 'http://127.0.0.1:9',
+        AGENT_APPROVAL_THRESHOLD_USD: ''
+    });
+
+    try {
+        // $0.01 within a $0.02 cap: paid, recorded under SYNERGY_DIR
+        process.env.AGENT_MAX_PER_REQUEST_USD = '0.02';
+        const paid = await streamRun();
+        const settled = paid.find(l => l.kind === 'event' && l.event.type === 'settled');
+        if (!settled || merchant.settlements.length !== 1) {
+            failures.push(`within budget: ${merchant.settlements.length} settlements, log ${JSON.stringify(paid.filter(l => l.kind === 'log').slice(-3))}`);
+        }
+        if (merchant.settlements[0]?.path !== '/api/premium') {
+            failures.push(`paid ${merchant.settlements[0]?.path}, expected MERCHANT_URL's /api/premium`);
+        }
+        for (const file of ['payments.jsonl', 'spend.json', 'payees.json']) {
+            if (!fs.existsSync(path.join(dir, file))) failures.push(`${file} not in SYNERGY_DIR`);
+        }
+
+        // The same $0.01 over a $0.005 cap: refused before signing
+        process.env.AGENT_MAX_PER_REQUEST_USD = '0.005';
+        const capped = await streamRun();
+        const failed = capped.find(l => l.kind === 'event' && l.event.type === 'failed');
+        if (failed?.kind !== 'event' || failed.event.type !== 'failed' || failed.event.code !== 'BUDGET_EXCEEDED') {
+            failures.push(`over budget: ${JSON.stringify(failed)}`);
+        }
+        if (merchant.paidAttempts.length !== 1) {
+            failures.push(`${merchant.paidAttempts.length} paid attempts, expected only the first run's`);
+        }
+    } finally {
+        await merchant.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+
+    console.log("---------------------------------------------------");
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`❌ ${f}`));
+        console.error(`❌ STREAM ROUTE TEST FAILED (${failures.length} problems)`);
+        process.exit(1);
+    }
+    console.log("🎉 STREAM ROUTE TEST PASSED: the dashboard agent gets the configured budget, merchant and data dir");
+}
+
+runStreamRouteTest().catch((error) => {
+    console.error("❌ Test Failed:", error.message || error);
+    process.exit(1);
+});
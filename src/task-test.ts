@@ -0,0 +1,123 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { generatePrivateKey } from 'viem/accounts';
+import { TransactionalAgent, AgentTask } from './agent';
+import { RawKeySigner } from './x402/signers';
+import { startStandInMerchant } from './testing/standInMerchant';
+
+/**
+ * Runs the agent over a list of tasks against a local stand-in merchant ($0.01 per
+ * call) and checks the RunReport: a paid task with a matching schema succeeds, a
+ * task over its max price fails without paying and the run continues, a schema
+ * mismatch fails after paying and stops the run, and the last task is skipped.
+ * A payment the merchant refused costs nothing; one answered with a 5xx may have
+ * settled and is counted. Runs fully offline.
+ */
+
+async function runTaskTest() {
+    console.log("🚀 Starting Task Test: configurable tasks and the run report");
+
+    const merchant = await startStandInMerchant({ payTo: '0x000000000000000000000000000000000000dEaD' });
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'synergy-tasks-'));
+    const failures: string[] = [];
+
+    const tasks: AgentTask[] = [
+        {
+            name: 'report',
+            url: `${merchant.url}/api/report`,
+            method: 'POST',
+            body: { topic: 'rates' },
+            maxPriceUsd: 0.05,
+            expect: { type: 'object', required: ['message', 'body'], properties: { message: { type: 'string' } } }
+        },
+        { name: 'too-dear', url: `${merchant.url}/api/dear`, maxPriceUsd: 0.001, onFailure: 'continue' },
+        { name: 'wrong-shape', url: `${merchant.url}/api/shape`, expect: { type: 'array' } },
+        { name: 'never-run', url: `${merchant.url}/api/never` }
+    ];
+
+    try {
+        const agent = new TransactionalAgent({
+            signer: new RawKeySigner(generatePrivateKey()),
+            useRealWallet: true,
+            balanceCheck: false,
+            ledgerFile: path.join(dir, 'payments.jsonl'),
+            tasks
+        });
+        const report = await agent.run(() => { });
+        const [report1, dear, shape, never] = report.tasks;
+
+        if (report.ok || report.tasks.length !== 4) {
+            failures.push(`report ok=${report.ok} with ${report.tasks.length} tasks, expected a failed run of 4`);
+        }
+        if (report1?.status !== 'succeeded' || report1.cost?.usd !== 0.01 || !report1.receipt || JSON.parse(report1.data.body).topic !== 'rates') {
+            failures.push(`report: ${JSON.stringify(report1)}`);
+        }
+        if (dear?.status !== 'failed' || dear.cost !== null || dear.error?.code !== 'PAYMENT_REQUIRED_UNSATISFIABLE') {
+            failures.push(`too-dear: ${JSON.stringify(dear)}`);
+        }
+        if (shape?.status !== 'failed' || shape.error?.code !== 'SCHEMA_MISMATCH' || shape.cost?.usd !== 0.01) {
+            failures.push(`wrong-shape: ${JSON.stringify(shape)}`);
+        }
+        if (never?.status !== 'skipped') {
+            failures.push(`never-run: ${never?.status}, expected skipped`);
+        }
+        if (report.totalUsd !== 0.02 || merchant.settlements.length !== 2) {
+            failures.push(`spent $${report.totalUsd} over ${merchant.settlements.length} settlements, expected $0.02 over 2`);
+        }
+
+        try {
+            await agent.run(() => { }, { tasks: [{ url: `${merchant.url}/api/dear`, maxPriceUsd: 0.001, onFailure: 'throw' }] });
+            failures.push("onFailure 'throw' did not reject run()");
+        } catch {
+            console.log("✅ onFailure 'throw' rejected run()");
+        }
+
+        const flaky = await startStandInMerchant({
+            payTo: '0x000000000000000000000000000000000000dEaD',
+            paidFailures: ['verify-failed', 'http-503']
+        });
+        try {
+            const costs = await new TransactionalAgent({
+                signer: new RawKeySigner(generatePrivateKey()),
+                useRealWallet: true,
+                balanceCheck: false,
+                retry: false,
+                ledgerFile: path.join(dir, 'flaky.jsonl')
+            }).run(() => { }, {
+                tasks: [
+                    { name: 'refused', url: `${flaky.url}/api/refused`, onFailure: 'continue' },
+                    { name: 'unavailable', url: `${flaky.url}/api/unavailable`, onFailure: 'continue' }
+                ]
+            });
+            const [refused, unavailable] = costs.tasks;
+            if (refused?.error?.code !== 'VERIFICATION_FAILED' || refused.cost !== null) {
+                failures.push(`refused payment: ${refused?.error?.code}, cost ${JSON.stringify(refused?.cost)}`);
+            }
+            if (unavailable?.error?.code !== 'MERCHANT_ERROR' || unavailable.cost?.usd !== 0.01) {
+                failures.push(`paid 503: ${unavailable?.error?.code}, cost ${JSON.stringify(unavailable?.cost)}`);
+            }
+            if (costs.totalUsd !== 0.01) {
+                failures.push(`refused and 503: spent $${costs.totalUsd}, expected $0.01`);
+            }
+        } finally {
+            await flaky.close();
+        }
+    } finally {
+        await merchant.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+
+    console.log("---------------------------------------------------");
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`❌ ${f}`));
+        console.error(`❌ TASK TEST FAILED (${failures.length} problems)`);
+        process.exit(1);
+    }
+    console.log("🎉 TASK TEST PASSED: outcomes, costs and failure handling as declared");
+}
+
+runTaskTest().catch((error) => {
+    console.error("❌ Test Failed:", error.message || error);
+    process.exit(1);
+});
@@ -0,0 +1,246 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { getAddress, keccak256, verifyTypedData } from 'viem';
+import {
+    decodePaymentSignatureHeader,
+    encodePaymentRequiredHeader,
+    encodePaymentResponseHeader
+} from '@x402/core/http';
+import type { PaymentRequired, PaymentRequirements } from '@x402/core/types';
+import { DEFAULT_NETWORK, findToken, getToken } from '../x402/networks';
+
+/**
+ * Local stand-in for an x402 merchant + facilitator, for tests and demos.
+ *
+ * Answers unpaid requests with a 402, checks the EIP-3009 authorization of paid
+ * ones (signature, payee, amount, nonce reuse) entirely offline and "settles"
+ * them with a fake transaction hash derived from the nonce. Nothing touches a chain.
+ */
+
+export interface StandInMerchantOptions {
+    payTo: `0x${string}`;
+    port?: number;
+    network?: string;
+    asset?: `0x${string}`;
+    // Price in base units; may depend on the path (e.g. to tell requests apart)
+    price?: string | ((path: string) => string);
+    // Random delay before answering a paid request, to shuffle concurrent responses
+    maxSettleDelayMs?: number;
+    // PaymentRequired extensions, e.g. a cross-chain destination
+    extensions?: Record<string, unknown>;
+    // Failures for the next paid requests, in order, before anything is verified or settled
+    // ('verify-failed': refused as if the facilitator found the signature invalid), or
+    // after settling ('settle-then-reset': the payment settles, then the connection drops)
+    paidFailures?: ('http-503' | 'connection-reset' | 'verify-failed' | 'settle-then-reset')[];
+}
+
+export interface StandInSettlement {
+    path: string;
+    payer: string;
+    amount: string;
+    nonce: string;
+    transaction: string;
+}
+
+export interface StandInMerchant {
+    url: string;
+    settlements: StandInSettlement[];
+    // Nonce of every paid request received, including failed attempts
+    paidAttempts: string[];
+    close(): Promise<void>;
+}
+
+const AUTHORIZATION_TYPES = {
+    TransferWithAuthorization: [
+        { name: 'from', type: 'address' },
+        { name: 'to', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'validAfter', type: 'uint256' },
+        { name: 'validBefore', type: 'uint256' },
+        { name: 'nonce', type: 'bytes32' }
+    ]
+} as const;
+
+export async function startStandInMerchant(options: StandInMerchantOptions): Promise<StandInMerchant> {
+    const network = options.network || DEFAULT_NETWORK;
+    const asset = options.asset || getToken(network, 'USDC').address;
+    // EIP-712 domain of the token; unregistered test tokens pass as USDC
+    const eip712 = findToken(network, asset)?.eip712 ?? { name: 'USDC', version: '2' };
+    const priceFor = typeof options.price === 'function'
+        ? options.price
+        : () => (options.price as string) || '10000';
+
+    const settlements: StandInSettlement[] = [];
+    const paidAttempts: string[] = [];
+    const paidFailures = [...(options.paidFailures || [])];
+    const usedNonces = new Set<string>();
+
+    const requirementsFor = (path: string): PaymentRequirements => ({
+        scheme: 'exact',
+        network: network as PaymentRequirements['network'],
+        asset,
+        amount: priceFor(path),
+        payTo: options.payTo,
+        maxTimeoutSeconds: 300,
+        extra: { ...eip712 }
+    });
+
+    const server = http.createServer(async (req, res) => {
+        const url = new URL(req.url || '/', `http://${req.headers.host}`);
+        const body = await readBody(req);
+        const requirements = requirementsFor(url.pathname);
+
+        const paymentRequired = (error: string): PaymentRequired => ({
+            x402Version: 2,
+            error,
+            resource: { url: url.toString(), description: 'Stand-in paid resource', mimeType: 'application/json' },
+            accepts: [requirements],
+            extensions: options.extensions
+        });
+
+        const signature = req.headers['payment-signature'];
+        if (typeof signature !== 'string') {
+            res.writeHead(402, {
+                'Content-Type': 'application/json',
+                'PAYMENT-REQUIRED': encodePaymentRequiredHeader(paymentRequired('Payment required'))
+            });
+            res.end('{}');
+            return;
+        }
+
+        try {
+            paidAttempts.push((decodePaymentSignatureHeader(signature).payload as any).authorization.nonce);
+        } catch {
+            paidAttempts.push('');
+        }
+        const failure = paidFailures.shift();
+        if (failure === 'connection-reset') {
+            req.socket.destroy();
+            return;
+        }
+        if (failure === 'http-503') {
+            res.writeHead(503, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Service temporarily unavailable' }));
+            return;
+        }
+
+        const invalidReason = failure === 'verify-failed'
+            ? 'invalid_exact_evm_payload_signature'
+            : await checkPayment(signature, requirements, usedNonces);
+        if (invalidReason) {
+            res.writeHead(402, {
+                'Content-Type': 'application/json',
+                'PAYMENT-REQUIRED': encodePaymentRequiredHeader(paymentRequired(invalidReason))
+            });
+            res.end(JSON.stringify({ error: invalidReason }));
+            return;
+        }
+
+        const { authorization } = decodePaymentSignatureHeader(signature).payload as any;
+        const settlement: StandInSettlement = {
+            path: url.pathname,
+            payer: authorization.from,
+            amount: authorization.value,
+            nonce: authorization.nonce,
+            transaction: keccak256(authorization.nonce)
+        };
+
+        if (options.maxSettleDelayMs) {
+            await new Promise(resolve => setTimeout(resolve, Math.random() * options.maxSettleDelayMs));
+        }
+        settlements.push(settlement);
+        if (failure === 'settle-then-reset') {
+            req.socket.destroy();
+            return;
+        }
+
+        res.writeHead(200, {
+            'Content-Type': 'application/json',
+            'PAYMENT-RESPONSE': encodePaymentResponseHeader({
+                success: true,
+                transaction: settlement.transaction,
+                network: requirements.network,
+                payer: settlement.payer
+            })
+        });
+        res.end(JSON.stringify({
+            message: 'Stand-in premium content',
+            path: url.pathname,
+            method: req.method,
+            body,
+            nonce: settlement.nonce
+        }));
+    });
+
+    await new Promise<void>(resolve => server.listen(options.port || 0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        url: `http://127.0.0.1:${port}`,
+        settlements,
+        paidAttempts,
+        close: () => new Promise<void>((resolve, reject) => server.close(err => err ? reject(err) : resolve()))
+    };
+}
+
+/**
+ * What the facilitator's verify would check, minus balances. Returns an invalid reason or null.
+ */
+async function checkPayment(header: string, requirements: PaymentRequirements, usedNonces: Set<string>): Promise<string | null> {
+    let payload;
+    try {
+        payload = decodePaymentSignatureHeader(header);
+    } catch {
+        return 'invalid_payload';
+    }
+
+    const { authorization, signature } = payload.payload as any;
+    if (!authorization || !signature) {
+        return 'invalid_payload';
+    }
+    if (getAddress(authorization.to) !== getAddress(requirements.payTo)) {
+        return 'invalid_exact_evm_payload_recipient_mismatch';
+    }
+    if (authorization.value !== requirements.amount) {
+        return 'invalid_exact_evm_payload_authorization_value';
+    }
+    if (usedNonces.has(authorization.nonce)) {
+        return 'invalid_exact_evm_payload_authorization_nonce_used';
+    }
+
+    const valid = await verifyTypedData({
+        address: authorization.from,
+        domain: {
+            name: requirements.extra.name as string,
+            version: requirements.extra.version as string,
+            chainId: parseInt(requirements.network.split(':')[1]),
+            verifyingContract: getAddress(requirements.asset)
+        },
+        types: AUTHORIZATION_TYPES,
+        primaryType: 'TransferWithAuthorization',
+        message: {
+            from: authorization.from,
+            to: authorization.to,
+            value: BigInt(authorization.value),
+            validAfter: BigInt(authorization.validAfter),
+            validBefore: BigInt(authorization.validBefore),
+            nonce: authorization.nonce
+        },
+        signature
+    });
+    if (!valid) {
+        return 'invalid_exact_evm_payload_signature';
+    }
+
+    usedNonces.add(authorization.nonce);
+    return null;
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        req.on('data', chunk => chunks.push(chunk));
+        req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+        req.on('error', reject);
+    });
+}
@@ -0,0 +1,75 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { privateKeyToAccount } from 'viem/accounts';
+import { TypedDataToSign, reviveTypedData } from '../x402/signers';
+
+/**
+ * Local stand-in for a remote signing service (the API RemoteSigner talks to),
+ * for tests and demos. Holds one key in memory and signs whatever typed data it
+ * is sent, after checking the bearer token if one is configured.
+ */
+
+export interface StandInRemoteSignerOptions {
+    privateKey: `0x${string}`;
+    token?: string;
+    port?: number;
+}
+
+export interface StandInRemoteSigner {
+    url: string;
+    address: `0x${string}`;
+    // Every typed data request that was signed
+    signed: TypedDataToSign[];
+    close(): Promise<void>;
+}
+
+export async function startStandInRemoteSigner(options: StandInRemoteSignerOptions): Promise<StandInRemoteSigner> {
+    const account = privateKeyToAccount(options.privateKey);
+    const signed: TypedDataToSign[] = [];
+
+    const server = http.createServer(async (req, res) => {
+        const reply = (status: number, body: unknown) => {
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(body));
+        };
+
+        if (options.token && req.headers.authorization !== `Bearer ${options.token}`) {
+            reply(401, { error: 'unauthorized' });
+            return;
+        }
+
+        try {
+            if (req.method === 'GET' && req.url === '/address') {
+                reply(200, { address: account.address });
+            } else if (req.method === 'POST' && req.url === '/sign-typed-data') {
+                const typedData = reviveTypedData(JSON.parse(await readBody(req)));
+                const signature = await account.signTypedData(typedData as any);
+                signed.push(typedData);
+                reply(200, { signature });
+            } else {
+                reply(404, { error: 'not found' });
+            }
+        } catch (e: any) {
+            reply(400, { error: e.message });
+        }
+    });
+
+    await new Promise<void>(resolve => server.listen(options.port || 0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        url: `http://127.0.0.1:${port}`,
+        address: account.address,
+        signed,
+        close: () => new Promise<void>((resolve, reject) => server.close(err => err ? reject(err) : resolve()))
+    };
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        req.on('data', chunk => chunks.push(chunk));
+        req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+        req.on('error', reject);
+    });
+}
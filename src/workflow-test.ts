@@ -0,0 +1,107 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { generatePrivateKey } from 'viem/accounts';
+import { TransactionalAgent, WorkflowDefinition, WorkflowError, runWorkflow } from './agent';
+import { RawKeySigner } from './x402/signers';
+import { startStandInMerchant } from './testing/standInMerchant';
+
+/**
+ * Runs a quote -> pay -> post workflow against a local stand-in merchant ($0.01 per
+ * call), passing data between the steps through templates, then the same workflow
+ * with a budget that only covers one payment: it must stop at the over-budget step
+ * without paying and report the partial results. Also checks that a cyclic workflow
+ * is refused before anything is paid. Runs fully offline.
+ */
+
+async function runWorkflowTest() {
+    console.log("🚀 Starting Workflow Test: data passing, budget and early stop");
+
+    const merchant = await startStandInMerchant({ payTo: '0x000000000000000000000000000000000000dEaD' });
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'synergy-workflow-'));
+    const failures: string[] = [];
+
+    const workflow = (budgetUsd: number): WorkflowDefinition => ({
+        name: 'quote-pay-post',
+        budgetUsd,
+        steps: [
+            // Declared out of order on purpose: dependencies decide the order
+            {
+                id: 'post',
+                url: `${merchant.url}/api/publish`,
+                method: 'POST',
+                body: { topic: '{{inputs.topic}}', source: '{{report.data.path}}', nonce: '{{report.data.nonce}}' }
+            },
+            { id: 'price', kind: 'quote', url: `${merchant.url}/api/report` },
+            { id: 'report', url: `${merchant.url}/api/report?max={{price.quote.options.0.amount}}` }
+        ]
+    });
+
+    try {
+        const agent = new TransactionalAgent({
+            signer: new RawKeySigner(generatePrivateKey()),
+            useRealWallet: true,
+            balanceCheck: false,
+            ledgerFile: path.join(dir, 'payments.jsonl')
+        });
+        const log = () => { };
+
+        const full = await runWorkflow(agent, workflow(0.05), { topic: 'rates' }, { log });
+        const order = full.steps.map(s => s.id).join(',');
+        if (!full.ok || order !== 'price,report,post') {
+            failures.push(`full run: ok=${full.ok}, order ${order}`);
+        }
+        const posted = JSON.parse(full.steps[2]?.data?.body || '{}');
+        if (posted.topic !== 'rates' || posted.source !== '/api/report' || posted.nonce !== merchant.settlements[0]?.nonce) {
+            failures.push(`post step got ${JSON.stringify(posted)}`);
+        }
+        if (full.totalUsd !== 0.02 || merchant.settlements.length !== 2) {
+            failures.push(`full run spent $${full.totalUsd} over ${merchant.settlements.length} settlements`);
+        }
+
+        const partial = await runWorkflow(agent, workflow(0.015), { topic: 'rates' }, { log });
+        const [, report, post] = partial.steps;
+        if (partial.ok || partial.stoppedAt !== 'post' || report?.status !== 'succeeded') {
+            failures.push(`partial run: ok=${partial.ok}, stopped at ${partial.stoppedAt}, report ${report?.status}`);
+        }
+        if (post?.status !== 'failed' || post.error?.code !== 'BUDGET_EXCEEDED' || post.cost !== null) {
+            failures.push(`over-budget step: ${JSON.stringify(post)}`);
+        }
+        if (partial.totalUsd !== 0.01 || merchant.settlements.length !== 3) {
+            failures.push(`partial run spent $${partial.totalUsd}, merchant has ${merchant.settlements.length} settlements (expected 3)`);
+        }
+
+        try {
+            await runWorkflow(agent, {
+                name: 'cycle',
+                steps: [
+                    { id: 'a', url: `${merchant.url}/api/a?x={{b.data.path}}` },
+                    { id: 'b', url: `${merchant.url}/api/b?x={{a.data.path}}` }
+                ]
+            }, {}, { log });
+            failures.push('cyclic workflow was accepted');
+        } catch (e) {
+            if (!(e instanceof WorkflowError) || merchant.settlements.length !== 3) {
+                failures.push(`cyclic workflow: ${e}`);
+            } else {
+                console.log(`✅ cycle refused: ${e.message}`);
+            }
+        }
+    } finally {
+        await merchant.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+
+    console.log("---------------------------------------------------");
+    if (failures.length > 0) {
+        failures.forEach(f => console.error(`❌ ${f}`));
+        console.error(`❌ WORKFLOW TEST FAILED (${failures.length} problems)`);
+        process.exit(1);
+    }
+    console.log("🎉 WORKFLOW TEST PASSED: templated DAG, budget and partial results");
+}
+
+runWorkflowTest().catch((error) => {
+    console.error("❌ Test Failed:", error.message || error);
+    process.exit(1);
+});
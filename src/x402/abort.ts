@@ -0,0 +1,46 @@
+/**
+ * Small helpers to make every step of a payment cancellable.
+ */
+
+/**
+ * One signal for a caller's AbortSignal and/or a total deadline. Undefined when neither is given.
+ */
+export function withDeadline(signal?: AbortSignal, timeoutMs?: number): AbortSignal | undefined {
+    const signals = [signal, timeoutMs !== undefined ? AbortSignal.timeout(timeoutMs) : undefined]
+        .filter((s): s is AbortSignal => !!s);
+    if (signals.length <= 1) {
+        return signals[0];
+    }
+    return AbortSignal.any(signals);
+}
+
+export function isTimeout(signal?: AbortSignal): boolean {
+    return signal?.reason instanceof DOMException && signal.reason.name === 'TimeoutError';
+}
+
+/**
+ * setTimeout as a promise that rejects as soon as the signal aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return abortable(new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => clearTimeout(timer), { once: true });
+    }), signal);
+}
+
+/**
+ * Races a promise that cannot be cancelled itself (e.g. a viem RPC call) against the signal.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+        return promise;
+    }
+    if (signal.aborted) {
+        return Promise.reject(signal.reason);
+    }
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
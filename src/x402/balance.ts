@@ -0,0 +1,142 @@
+import { isAddress } from 'viem';
+import type { PaymentRequirements } from '@x402/core/types';
+import { InsufficientBalance, UnknownAsset, X402ErrorDetails } from './errors';
+
+/**
+ * Pre-flight balance check, run before anything is signed.
+ *
+ * Balances are cached per network+asset for `ttlMs` and concurrent reads share one
+ * RPC call. Payments in flight are held against the cached balance, and a settled
+ * payment is deducted from it, so a burst of requests neither hits the RPC per
+ * request nor overspends what the wallet holds.
+ */
+
+export interface BalanceCheckOptions {
+    // How long a balance read stays fresh (default 15s)
+    ttlMs?: number;
+}
+
+export interface BalanceHold {
+    // Payment settled: deduct it from the cached balance
+    spend(): void;
+    // Payment did not happen: free the held amount
+    release(): void;
+}
+
+type BalanceReader = (option: PaymentRequirements) => Promise<bigint>;
+
+interface CachedBalance {
+    balance: bigint;
+    at: number;
+}
+
+const DEFAULT_TTL_MS = 15_000;
+
+export class BalanceChecker {
+    private cache = new Map<string, CachedBalance>();
+    private reads = new Map<string, Promise<CachedBalance>>();
+    private held = new Map<string, bigint>();
+    private ttlMs: number;
+
+    constructor(private read: BalanceReader, options: BalanceCheckOptions = {}) {
+        this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    }
+
+    /**
+     * Cached balance of the payer for the option's asset. Throws UnknownAsset when
+     * the asset is not a readable token contract.
+     */
+    async balanceOf(option: PaymentRequirements): Promise<bigint> {
+        return (await this.load(option)).balance;
+    }
+
+    /**
+     * Holds the option's amount against the balance, or throws InsufficientBalance /
+     * UnknownAsset. Anything else (RPC down) is rethrown as-is.
+     */
+    async hold(option: PaymentRequirements, details: X402ErrorDetails = {}): Promise<BalanceHold> {
+        const key = keyOf(option);
+        const amount = BigInt(option.amount);
+        const { balance } = await this.load(option, details);
+        const held = this.held.get(key) ?? 0n;
+
+        if (balance - held < amount) {
+            throw new InsufficientBalance(balance - held, amount, { ...details, requirements: option });
+        }
+        this.held.set(key, held + amount);
+
+        let done = false;
+        const unhold = () => {
+            if (done) return false;
+            done = true;
+            this.held.set(key, (this.held.get(key) ?? amount) - amount);
+            return true;
+        };
+        return {
+            spend: () => {
+                if (!unhold()) return;
+                const cached = this.cache.get(key);
+                if (cached) {
+                    cached.balance = cached.balance > amount ? cached.balance - amount : 0n;
+                }
+            },
+            release: () => { unhold(); }
+        };
+    }
+
+    /**
+     * Forgets cached balances (all, or one option's), e.g. after funding the wallet.
+     */
+    invalidate(option?: PaymentRequirements) {
+        if (option) {
+            this.cache.delete(keyOf(option));
+        } else {
+            this.cache.clear();
+        }
+    }
+
+    private async load(option: PaymentRequirements, details: X402ErrorDetails = {}): Promise<CachedBalance> {
+        if (!isAddress(option.asset)) {
+            throw new UnknownAsset(option.asset, option.network, { ...details, requirements: option });
+        }
+
+        const key = keyOf(option);
+        const cached = this.cache.get(key);
+        if (cached && Date.now() - cached.at < this.ttlMs) {
+            return cached;
+        }
+
+        let read = this.reads.get(key);
+        if (!read) {
+            read = this.read(option)
+                .then(balance => {
+                    const entry = { balance, at: Date.now() };
+                    this.cache.set(key, entry);
+                    return entry;
+                })
+                .finally(() => this.reads.delete(key));
+            this.reads.set(key, read);
+        }
+
+        try {
+            return await read;
+        } catch (e) {
+            if (isNoContract(e)) {
+                throw new UnknownAsset(option.asset, option.network, { ...details, requirements: option, cause: e });
+            }
+            throw e;
+        }
+    }
+}
+
+function keyOf(option: PaymentRequirements): string {
+    return `${option.network}:${option.asset.toLowerCase()}`;
+}
+
+// viem reports a call to an address without code as ContractFunctionZeroDataError
+function isNoContract(e: any): boolean {
+    if (typeof e?.walk !== 'function') {
+        return false;
+    }
+    return !!e.walk((inner: any) => inner?.name === 'ContractFunctionZeroDataError');
+}
@@ -0,0 +1,214 @@
+import fs from 'fs';
+import path from 'path';
+import type { PaymentRequirements } from '@x402/core/types';
+import { AssetPrice, parseAmount, priceInUsd } from './selection';
+import { PaymentError, PaymentRequiredUnsatisfiable } from './errors';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Spending limits enforced before a payment is signed.
+ * USD limits need the asset to be priceable (see priceInUsd); an unpriceable
+ * payment is refused while any USD limit is set.
+ * Per-merchant and per-asset caps apply over the same rolling 24h window as `dailyUsd`.
+ */
+export interface BudgetLimits {
+    maxPerRequestUsd?: number;
+    hourlyUsd?: number;
+    dailyUsd?: number;
+    // Merchant origin (e.g. "http://localhost:4021") -> USD
+    perMerchantUsd?: Record<string, number>;
+    // "<network>:<asset address>" (e.g. "eip155:84532:0x036C...") -> base units
+    perAsset?: Record<string, string>;
+    prices?: Record<string, AssetPrice>;
+}
+
+export interface SpendRecord {
+    at: number;
+    origin: string;
+    network: string;
+    asset: string;
+    amount: string;
+    usd: number | null;
+}
+
+export type BudgetLimitName = 'maxPerRequestUsd' | 'hourlyUsd' | 'dailyUsd' | 'perMerchantUsd' | 'perAsset' | 'unpriced';
+
+export class BudgetExceededError extends PaymentError {
+    readonly limit: BudgetLimitName;
+    readonly origin: string;
+
+    constructor(limit: BudgetLimitName, message: string, origin: string, requirements: PaymentRequirements) {
+        super('BUDGET_EXCEEDED', `Budget exceeded (${limit}): ${message}`, { requirements });
+        this.limit = limit;
+        this.origin = origin;
+    }
+}
+
+export interface BudgetStore {
+    load(): SpendRecord[];
+    save(records: SpendRecord[]): void;
+}
+
+export class MemoryBudgetStore implements BudgetStore {
+    private records: SpendRecord[] = [];
+
+    load() {
+        return [...this.records];
+    }
+
+    save(records: SpendRecord[]) {
+        this.records = [...records];
+    }
+}
+
+/**
+ * Keeps the last 24h of spend in a JSON file so limits survive restarts.
+ */
+export class FileBudgetStore implements BudgetStore {
+    constructor(private filePath: string = path.resolve(process.cwd(), '.synergy', 'spend.json')) { }
+
+    load(): SpendRecord[] {
+        if (!fs.existsSync(this.filePath)) {
+            return [];
+        }
+        return JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    }
+
+    save(records: SpendRecord[]) {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        // Write-then-rename so a crash never leaves a half-written file
+        const tmp = `${this.filePath}.tmp`;
+        fs.writeFileSync(tmp, JSON.stringify(records, null, 2));
+        fs.renameSync(tmp, this.filePath);
+    }
+}
+
+export interface BudgetReservation {
+    readonly record: SpendRecord;
+    // Payment went through: count it against the limits for good
+    commit(): void;
+    // Payment did not happen: free the reserved amount
+    release(): void;
+}
+
+/**
+ * Enforces BudgetLimits. A payment first reserves its amount (which fails with
+ * BudgetExceededError if it would break a limit), then commits or releases it.
+ * Outstanding reservations count against the limits, so parallel requests cannot
+ * jointly overshoot.
+ */
+export class BudgetGuard {
+    private pending = new Set<SpendRecord>();
+
+    constructor(private limits: BudgetLimits, private store: BudgetStore = new MemoryBudgetStore()) { }
+
+    reserve(origin: string, requirements: PaymentRequirements): BudgetReservation {
+        if (parseAmount(requirements.amount) === null) {
+            throw new PaymentRequiredUnsatisfiable(`Invalid amount "${requirements.amount}" in the payment requirements`, { requirements });
+        }
+        const record: SpendRecord = {
+            at: Date.now(),
+            origin,
+            network: requirements.network,
+            asset: requirements.asset,
+            amount: requirements.amount,
+            usd: priceInUsd(requirements, this.limits.prices)
+        };
+
+        this.check(record, requirements);
+        this.pending.add(record);
+
+        let settled = false;
+        return {
+            record,
+            commit: () => {
+                if (settled) return;
+                settled = true;
+                this.pending.delete(record);
+                this.store.save([...this.recent(record.at), record]);
+            },
+            release: () => {
+                if (settled) return;
+                settled = true;
+                this.pending.delete(record);
+            }
+        };
+    }
+
+    /**
+     * Spend in the last 24h (committed and pending).
+     */
+    spent(now = Date.now()): SpendRecord[] {
+        return [...this.recent(now), ...this.pending];
+    }
+
+    private recent(now: number): SpendRecord[] {
+        return this.store.load().filter(r => now - r.at < DAY_MS);
+    }
+
+    private check(record: SpendRecord, requirements: PaymentRequirements) {
+        const l = this.limits;
+        const fail = (limit: BudgetLimitName, message: string) => {
+            throw new BudgetExceededError(limit, message, record.origin, requirements);
+        };
+
+        const usdLimits = [l.maxPerRequestUsd, l.hourlyUsd, l.dailyUsd].some(v => v !== undefined) ||
+            (l.perMerchantUsd && record.origin in l.perMerchantUsd);
+        if (usdLimits && record.usd === null) {
+            fail('unpriced', `cannot price ${record.amount} of ${record.asset} in USD`);
+        }
+
+        if (l.maxPerRequestUsd !== undefined && record.usd > l.maxPerRequestUsd) {
+            fail('maxPerRequestUsd', `$${record.usd} > $${l.maxPerRequestUsd} per request`);
+        }
+
+        const history = this.spent(record.at);
+        const sumUsd = (records: SpendRecord[]) => records.reduce((acc, r) => acc + (Number.isFinite(r.usd) ? r.usd : 0), 0);
+
+        if (l.hourlyUsd !== undefined) {
+            const hour = sumUsd(history.filter(r => record.at - r.at < HOUR_MS));
+            if (hour + record.usd > l.hourlyUsd) {
+                fail('hourlyUsd', `$${hour} spent this hour + $${record.usd} > $${l.hourlyUsd}`);
+            }
+        }
+
+        if (l.dailyUsd !== undefined) {
+            const day = sumUsd(history);
+            if (day + record.usd > l.dailyUsd) {
+                fail('dailyUsd', `$${day} spent today + $${record.usd} > $${l.dailyUsd}`);
+            }
+        }
+
+        const merchantCap = l.perMerchantUsd?.[record.origin];
+        if (merchantCap !== undefined) {
+            const merchant = sumUsd(history.filter(r => r.origin === record.origin));
+            if (merchant + record.usd > merchantCap) {
+                fail('perMerchantUsd', `$${merchant} spent at ${record.origin} + $${record.usd} > $${merchantCap}`);
+            }
+        }
+
+        const assetCap = findAssetCap(l.perAsset, record);
+        if (assetCap !== undefined) {
+            const asset = history
+                .filter(r => sameAsset(r, record))
+                .reduce((acc, r) => acc + (parseAmount(r.amount) ?? 0n), 0n);
+            if (asset + BigInt(record.amount) > assetCap) {
+                fail('perAsset', `${asset} + ${record.amount} > ${assetCap} of ${record.asset} on ${record.network}`);
+            }
+        }
+    }
+}
+
+// The same token address on another chain is another asset
+function sameAsset(a: SpendRecord, b: SpendRecord): boolean {
+    return a.network === b.network && a.asset.toLowerCase() === b.asset.toLowerCase();
+}
+
+function findAssetCap(caps: Record<string, string> | undefined, record: SpendRecord): bigint | undefined {
+    if (!caps) return undefined;
+    const wanted = `${record.network}:${record.asset}`.toLowerCase();
+    const key = Object.keys(caps).find(k => k.toLowerCase() === wanted);
+    return key === undefined ? undefined : BigInt(caps[key]);
+}
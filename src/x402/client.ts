@@ -1,29 +1,112 @@
-import { createWalletClient, http, publicActions, keccak256, createPublicClient, parseAbiItem } from 'viem';
-import { privateKeyToAccount } from 'viem/accounts';
-import { baseSepolia } from 'viem/chains';
+import { createPublicClient, http } from 'viem';
 import crypto from 'crypto';
 
 if (!globalThis.crypto) {
     globalThis.crypto = crypto as any;
 }
 
-import { x402Client } from '@x402/core/client';
+import { x402Client, x402HTTPClient } from '@x402/core/client';
 import { registerExactEvmScheme } from '@x402/evm/exact/client';
 import { wrapFetchWithPayment } from '@x402/fetch';
-import type { PaymentRequirements } from '@x402/core/types';
+import type { ClientEvmSigner } from '@x402/evm';
+import type { PaymentPayload, PaymentRequired, PaymentRequirements } from '@x402/core/types';
+import { PaymentReceipt, decodePaymentReceipt, confirmReceiptOnChain, findReceiptOnChain } from './receipt';
+import { PaymentSelectionPolicy, SelectionContext, SelectionDecision, createSelectionPolicy, selectPaymentOption } from './selection';
+import { BudgetGuard, BudgetReservation } from './budget';
+import { PaymentLedger } from './ledger';
+import { BalanceChecker, BalanceCheckOptions, BalanceHold } from './balance';
+import { Signer, RawKeySigner } from './signers';
+import { RetryOptions, createRetryingFetch, isPaidRequest } from './retry';
+import { abortable, isTimeout, withDeadline } from './abort';
+import { SigningPolicyOptions, checkTransferAuthorization } from './signingPolicy';
+import { MerchantPolicy, MerchantNotTrusted } from './merchantPolicy';
+import { PaymentEvent, PaymentEventEmitter, PaymentEventMap, PaymentEventType, renderPaymentEvent } from './events';
+import { PaymentQuote, QuoteOption, TokenMetadata, CrossChainInfo, extractCrossChain, invalidAmount, toQuoteOption, describeQuoteOption } from './quote';
+import { DEFAULT_NETWORK, RpcUrlMap, getNetwork, explorerTxUrl, findToken } from './networks';
+import {
+    X402Error,
+    X402ErrorDetails,
+    PaymentRequiredUnsatisfiable,
+    SigningRejected,
+    PaymentDeclined,
+    VerificationFailed,
+    SettlementFailed,
+    MerchantError,
+    NetworkError,
+    RequestAborted
+} from './errors';
+
+export type { PaymentReceipt } from './receipt';
+export type { PaymentQuote, QuoteOption, CrossChainInfo } from './quote';
+export { PaymentEventEmitter, renderPaymentEvent } from './events';
+export type { PaymentEvent, PaymentEventType, PaymentEventOf } from './events';
+export { BudgetExceededError } from './budget';
+export { MerchantNotTrusted } from './merchantPolicy';
+export * from './errors';
+export type { Signer } from './signers';
+
+function createChainClient(network: string, rpcUrls: RpcUrlMap) {
+    const info = getNetwork(network);
+    return createPublicClient({
+        chain: info.chain,
+        transport: http(rpcUrls[network] || info.rpcUrl)
+    });
+}
+
+type ChainClient = ReturnType<typeof createChainClient>;
+
+/**
+ * Public clients per CAIP-2 network, created on first use. For chain reads that
+ * need no key (quotes, receipt checks).
+ */
+export class ChainClients {
+    private clients = new Map<string, ChainClient>();
+
+    constructor(private rpcUrls: RpcUrlMap = {}) { }
+
+    clientFor(network: string): ChainClient {
+        let client = this.clients.get(network);
+        if (!client) {
+            client = createChainClient(network, this.rpcUrls);
+            this.clients.set(network, client);
+        }
+        return client;
+    }
+}
 
 export class RealWallet {
-    public client;
-    public account;
+    // Client for the wallet's default network
+    public client: ChainClient;
+    // Holds (or reaches) the key; see ./signers for the backends
+    public readonly signer: Signer;
+    public readonly address: `0x${string}`;
+    public readonly network: string;
+
+    private chains: ChainClients;
+
+    /**
+     * @param signer - a Signer (keystore, remote, raw key), or a raw private key string
+     * @param rpcUrl - RPC for the default network (kept for existing callers)
+     * @param options.network - CAIP-2 id of the default network (Base Sepolia if omitted)
+     * @param options.rpcUrls - CAIP-2 id -> RPC URL for any network we may pay on
+     */
+    constructor(signer: Signer | string, rpcUrl?: string, options: { network?: string; rpcUrls?: RpcUrlMap } = {}) {
+        this.signer = typeof signer === 'string' ? new RawKeySigner(signer) : signer;
+        this.address = this.signer.address;
+        this.network = options.network || DEFAULT_NETWORK;
+        const rpcUrls = { ...options.rpcUrls };
+        if (rpcUrl) {
+            rpcUrls[this.network] = rpcUrl;
+        }
+        this.chains = new ChainClients(rpcUrls);
+        this.client = this.clientFor(this.network);
+    }
 
-    constructor(privateKey: string, rpcUrl?: string) {
-        const formattedKey = privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`;
-        this.account = privateKeyToAccount(formattedKey as `0x${string}`);
-        this.client = createWalletClient({
-            account: this.account,
-            chain: baseSepolia,
-            transport: http(rpcUrl || 'https://sepolia.base.org')
-        }).extend(publicActions);
+    /**
+     * Public client for a CAIP-2 network, created on first use.
+     */
+    clientFor(network: string): ChainClient {
+        return this.chains.clientFor(network);
     }
 
     // Legacy method for compatibility if needed, but x402 client handles payment now
@@ -32,271 +115,883 @@ export class RealWallet {
     }
 }
 
+export interface X402ClientOptions {
+    // Confirm header receipts on-chain, and search Transfer logs when a merchant sends none
+    onChainFallback?: boolean;
+    // Decides which of the merchant's payment options to pay with (default: prefer Base Sepolia)
+    selectionPolicy?: PaymentSelectionPolicy;
+    // Spending limits, checked before anything is signed
+    budget?: BudgetGuard;
+    // Pre-flight token balance check before signing (on by default; false disables it)
+    balanceCheck?: BalanceCheckOptions | false;
+    // Limits on what the key will sign (see ./signingPolicy)
+    signingPolicy?: SigningPolicyOptions;
+    // Backoff for resending the signed payment after a network error or 5xx (false disables)
+    retry?: RetryOptions | false;
+    // Default total deadline for each call, in ms (see X402RequestInit.timeoutMs)
+    timeoutMs?: number;
+    // Where payment events go; pass one to share it between clients (default: a new one per client)
+    events?: PaymentEventEmitter;
+    // Durable record of every payment sent (see ./ledger)
+    ledger?: PaymentLedger;
+    // Last word on the selected option before anything is held, reserved or signed:
+    // resolve to null to pay, or to the reason not to (PaymentDeclined)
+    approvePayment?: (payment: PaymentApproval) => Promise<string | null>;
+    // Which merchant origins may be called and which payTo addresses paid; pins each
+    // origin's payTo and refuses (or warns about) a change (see ./merchantPolicy)
+    merchantPolicy?: MerchantPolicy;
+    // CAIP-2 id -> RPC URL for chain reads when the client has no wallet
+    rpcUrls?: RpcUrlMap;
+}
+
+export interface PaymentApproval {
+    requestId: string;
+    url: string;
+    origin: string;
+    option: QuoteOption;
+}
+
+export type HttpMethod = 'GET' | 'HEAD' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export const HTTP_METHODS: readonly HttpMethod[] = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+export interface X402RequestInit {
+    headers?: HeadersInit;
+    // Plain objects/arrays are sent as JSON; strings, FormData, URLSearchParams,
+    // Blob, ArrayBuffer and typed arrays are sent as-is.
+    body?: unknown;
+    // Cancels the call at whatever step it is in (fetch, balance check, retries, receipt lookup)
+    signal?: AbortSignal;
+    // Total deadline for the whole call, in ms, including payment and receipt resolution
+    timeoutMs?: number;
+}
+
+export interface X402Response {
+    status: number;
+    data: any;
+    headers: Headers;
+    receipt: PaymentReceipt | null;
+}
+
+/**
+ * Everything that belongs to one paid request. Each request() call gets its own,
+ * so concurrent calls on one client never see each other's payment details.
+ */
+export interface PaymentRequestContext {
+    id: string;
+    method: HttpMethod;
+    url: string;
+    origin: string;
+    // Selected option, set once the 402 has been answered
+    requirements: PaymentRequirements | null;
+    // Signed payment (authorization + signature) sent to the merchant
+    payload: PaymentPayload | null;
+    // Times the signed payment was sent (more than 1 after retries)
+    paidAttempts: number;
+    receipt: PaymentReceipt | null;
+    reservation: BudgetReservation | null;
+    balanceHold: BalanceHold | null;
+    // wrapFetchWithPayment rewraps errors from payload creation; keep the typed original
+    abortError: X402Error | null;
+    // Bounds the on-chain receipt search when the merchant sends no receipt header
+    startBlock?: bigint;
+    // Caller's signal combined with the deadline
+    signal?: AbortSignal;
+    // Cross-chain destination declared in the 402, if any
+    crossChain?: CrossChainInfo | null;
+}
+
 export class X402Client {
-    private x402: x402Client;
+    // Structured progress of every request (see ./events); the text log is rendered from it
+    public readonly events: PaymentEventEmitter;
     private log: (msg: string) => void;
-    private currentOptions: any = null; // Store selected options for hash lookup
 
     private baseUrl: string;
-    private walletAddress: string;
-
-    constructor(baseUrl: string, wallet: RealWallet, logCallback?: (msg: string) => void) {
+    private wallet: RealWallet | null;
+    private walletAddress: string | null;
+    private chains: Pick<ChainClients, 'clientFor'>;
+    private options: X402ClientOptions;
+    private selectionPolicy: PaymentSelectionPolicy;
+    private balances: BalanceChecker | null;
+    private tokens = new Map<string, Promise<TokenMetadata | null>>();
+
+    /**
+     * @param wallet - a RealWallet, or just a Signer (paying on the default network's RPCs),
+     *   or null for a client that only quotes
+     */
+    constructor(baseUrl: string, wallet: RealWallet | Signer | null, logCallback?: (msg: string) => void, options: X402ClientOptions = {}) {
         this.baseUrl = baseUrl.replace(/\/$/, ''); // Normalize base URL
         this.log = logCallback || ((msg) => console.log(msg));
-        this.walletAddress = wallet.account.address;
+        this.wallet = wallet === null ? null : wallet instanceof RealWallet ? wallet : new RealWallet(wallet);
+        this.walletAddress = this.wallet?.address ?? null;
+        this.chains = this.wallet ?? new ChainClients(options.rpcUrls);
+        this.options = options;
+        this.events = options.events || new PaymentEventEmitter();
+        options.ledger?.attach(this.events);
+
+        this.selectionPolicy = createSelectionPolicy(options.selectionPolicy);
+        this.balances = options.balanceCheck === false
+            ? null
+            : new BalanceChecker((option) => this.readBalance(option), options.balanceCheck || {});
 
-        // Initialize x402 Client with a simple network selector
-        this.x402 = new x402Client((_version, options) => {
-            this.log(`[X402Client] 📋 Available payment options: ${JSON.stringify(options)}`);
-            // Prefer Base Sepolia
-            const preferred = options.find(o => o.network === 'eip155:84532') || options[0];
-            this.log(`[X402Client] ✨ Selected option: ${preferred.network} (${preferred.amount} ${preferred.asset || 'ETH'})`);
-
-            // Capture chosen options for later use in hash lookup
-            this.currentOptions = preferred;
+        this.log("[X402Client] 🚀 x402 Client setup complete with EVM scheme");
+    }
 
-            return preferred;
-        });
+    public get(endpoint: string, init?: Omit<X402RequestInit, 'body'>) {
+        return this.request('GET', endpoint, init);
+    }
 
-        // Register EVM scheme with a wrapped signer (Account) to capture the transaction hash
-        // We intercept ALL signing methods to see what is actually used
-        const originalSigner = wallet.account;
-        const loggingSigner = {
-            ...originalSigner,
-            // Intercept signTransaction
-            signTransaction: async (args: any) => {
-                this.log(`[X402Client] ✍️ Signing TRANSACTION...`);
-                // Force log directly to stdout to bypass any buffering issues
-                console.log(`[X402Client] ✍️ Signing TRANSACTION...`);
-                const signed = await originalSigner.signTransaction(args);
-                try {
-                    const txHash = keccak256(signed);
-                    this.log(`[X402Client] 🧾 Transaction Hash: ${txHash}`);
-                    this.log(`[X402Client] 🔗 Explorer: https://sepolia.basescan.org/tx/${txHash}`);
-                    console.log(`[X402Client] 🧾 Transaction Hash: ${txHash}`);
-                } catch (err) { this.log(`[X402Client] ⚠️ Hash calc failed: ${err}`); }
-                return signed;
-            },
-            // Intercept signMessage
-            signMessage: async (args: any) => {
-                this.log(`[X402Client] ✍️ Signing MESSAGE...`);
-                console.log(`[X402Client] ✍️ Signing MESSAGE...`);
-                this.log(`[X402Client] ℹ️ Message: ${args.message}`);
-                return originalSigner.signMessage(args);
-            },
-            // Intercept signTypedData
-            signTypedData: async (args: any) => {
-                this.log(`[X402Client] ✍️ Signing TYPED DATA...`);
-                console.log(`[X402Client] ✍️ Signing TYPED DATA...`);
-                this.log(`[X402Client] ℹ️ Domain: ${JSON.stringify(args.domain)}`);
-                return originalSigner.signTypedData(args);
-            }
-        };
+    public post(endpoint: string, body?: unknown, init?: Omit<X402RequestInit, 'body'>) {
+        return this.request('POST', endpoint, { ...init, body });
+    }
 
-        registerExactEvmScheme(this.x402, {
-            signer: loggingSigner
-        });
+    public put(endpoint: string, body?: unknown, init?: Omit<X402RequestInit, 'body'>) {
+        return this.request('PUT', endpoint, { ...init, body });
+    }
 
-        this.log("[X402Client] 🚀 x402 Client setup complete with EVM scheme");
+    public patch(endpoint: string, body?: unknown, init?: Omit<X402RequestInit, 'body'>) {
+        return this.request('PATCH', endpoint, { ...init, body });
     }
 
-    public async get(endpoint: string) {
-        const requestId = Math.floor(Math.random() * 10000);
-        const url = endpoint.startsWith('http') ? endpoint : `${this.baseUrl}${endpoint.startsWith('/') ? '' : '/'}${endpoint}`;
-        this.log(`[X402Client] [Req:${requestId}] 📤 GET ${url}`);
-        const startTime = Date.now();
+    public delete(endpoint: string, init?: X402RequestInit) {
+        return this.request('DELETE', endpoint, init);
+    }
 
-        // Capture start block to ensure we only find NEW transactions
-        let startBlock: bigint | undefined;
+    /**
+     * Dry run: sends the request unpaid and returns what the merchant asks for,
+     * normalized, plus the option the selection policy would pay with.
+     * Nothing is signed and no budget or balance is touched.
+     */
+    public async quote(endpoint: string, method: HttpMethod = 'GET', init: X402RequestInit = {}): Promise<PaymentQuote> {
+        const url = this.resolveUrl(endpoint);
+        const details = { url, requestId: crypto.randomUUID() };
+        const signal = withDeadline(init.signal, init.timeoutMs ?? this.options.timeoutMs);
+        this.log(`[X402Client] [Req:${details.requestId}] 🔎 Quoting ${method} ${url}`);
+        this.options.merchantPolicy?.checkOrigin(url, details);
+
+        let response: Response;
+        let data: any;
+        // Origin of the server that answered, after redirects
+        let origin = new URL(url).origin;
         try {
-            // Force fresh block fetch using raw RPC call to bypass any viem/transport caching
-            const rpcUrl = 'https://sepolia.base.org';
-            const blockResponse = await fetch(rpcUrl, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    jsonrpc: '2.0',
-                    method: 'eth_blockNumber',
-                    params: [],
-                    id: requestId // Use request ID to trace this specific call
-                })
+            const headers = new Headers(init.headers);
+            const request = new Request(url, { method, headers, body: encodeBody(init.body, headers), signal });
+            response = await fetchFollowingRedirects(request, (hop) => {
+                this.options.merchantPolicy?.checkOrigin(hop, details);
+                origin = new URL(hop).origin;
             });
-            const blockData = await blockResponse.json();
-            startBlock = BigInt(blockData.result);
-            this.log(`[X402Client] [Req:${requestId}] ⏱️ Start Block (Raw RPC): ${startBlock}`);
+            data = await readResponseBody(response);
+        } catch (error: any) {
+            if (error instanceof X402Error) {
+                throw error;
+            }
+            if (signal?.aborted) {
+                throw new RequestAborted(isTimeout(signal), false, details);
+            }
+            throw new NetworkError(`${method} ${url} failed: ${error.message}`, { ...details, cause: error });
+        }
+
+        if (response.status !== 402) {
+            if (response.status >= 400) {
+                throw new MerchantError(response.status, data, false, details);
+            }
+            this.log(`[X402Client] [Req:${details.requestId}] 🆓 No payment required (HTTP ${response.status})`);
+            return {
+                url, paymentRequired: false, x402Version: null, description: null,
+                options: [], selected: null, reason: null, crossChain: null, raw: null
+            };
+        }
+
+        let paymentRequired: PaymentRequired;
+        try {
+            paymentRequired = new x402HTTPClient(new x402Client())
+                .getPaymentRequiredResponse(name => response.headers.get(name), data);
+        } catch (e: any) {
+            throw new PaymentRequiredUnsatisfiable(`Unreadable 402 payment requirements: ${e.message}`, { ...details, cause: e });
+        }
+
+        const crossChain = extractCrossChain(paymentRequired);
+        this.emit('quoteReceived', details.requestId, url, { options: paymentRequired.accepts, crossChain, dryRun: true });
+        let options: QuoteOption[];
+        let decision: SelectionDecision | null;
+        try {
+            options = await abortable(Promise.all(paymentRequired.accepts.map(async o =>
+                toQuoteOption(o, await this.tokenMetadata(o), crossChain))), signal);
+            options.forEach(o => this.log(`[X402Client] [Req:${details.requestId}] 💲 ${describeQuoteOption(o)}`));
+
+            const supported = paymentRequired.accepts.filter((o, i) => isSupported(o) && !options[i].invalid);
+            decision = await abortable(selectPaymentOption(this.selectionPolicy, supported, this.selectionContext()), signal);
+        } catch (error) {
+            if (signal?.aborted) {
+                throw new RequestAborted(isTimeout(signal), false, details);
+            }
+            throw error;
+        }
+        let selected = decision ? options[paymentRequired.accepts.indexOf(decision.option)] : null;
+        let reason = decision?.reason ?? options.find(o => o.invalid)?.invalid ?? null;
+        if (decision && this.options.merchantPolicy) {
+            try {
+                this.checkPayee(details.requestId, url, origin, decision.option, this.options.merchantPolicy, details);
+            } catch (e) {
+                if (!(e instanceof MerchantNotTrusted)) throw e;
+                selected = null;
+                reason = e.message;
+            }
+        }
+
+        return {
+            url,
+            paymentRequired: true,
+            x402Version: paymentRequired.x402Version,
+            description: paymentRequired.resource?.description ?? null,
+            options,
+            selected,
+            reason,
+            crossChain,
+            raw: paymentRequired
+        };
+    }
+
+    /**
+     * Sends a request, paying for it if the merchant answers 402.
+     * The body is buffered into the Request, so the paid retry sends it again unchanged.
+     * Safe to call concurrently: all payment state lives in the request's own context.
+     *
+     * Resolves with 2xx/3xx responses only; everything else rejects with an X402Error
+     * (PaymentError, MerchantError, NetworkError or RequestAborted - see ./errors).
+     *
+     * `init.signal` / `init.timeoutMs` reach every step. Aborting before the payment is
+     * signed is clean (nothing was paid); aborting after it went out leaves the outcome
+     * unknown, so the spend is counted against the budget. Once the merchant has answered,
+     * an abort only cuts the on-chain receipt lookup short.
+     */
+    public async request(method: HttpMethod, endpoint: string, init: X402RequestInit = {}): Promise<X402Response> {
+        const url = this.resolveUrl(endpoint);
+        const ctx: PaymentRequestContext = {
+            id: crypto.randomUUID(),
+            method,
+            url,
+            origin: new URL(url).origin,
+            requirements: null,
+            payload: null,
+            paidAttempts: 0,
+            receipt: null,
+            reservation: null,
+            balanceHold: null,
+            abortError: null,
+            signal: withDeadline(init.signal, init.timeoutMs ?? this.options.timeoutMs)
+        };
+        this.log(`[X402Client] [Req:${ctx.id}] 📤 ${method} ${url}`);
+        if (ctx.signal?.aborted) {
+            throw this.fail(ctx, this.aborted(ctx));
+        }
+        if (!this.wallet) {
+            throw this.fail(ctx, new SigningRejected('No wallet configured: this client can only quote', this.errorDetails(ctx)));
+        }
+        try {
+            this.options.merchantPolicy?.checkOrigin(url, this.errorDetails(ctx));
         } catch (e) {
-            this.log(`[X402Client] [Req:${requestId}] ⚠️ Could not get start block: ${e}`);
+            throw e instanceof X402Error ? this.fail(ctx, e) : e;
         }
 
-        // Wrap fetch
-        const fetchWithPayment = wrapFetchWithPayment(fetch, this.x402);
+        const httpClient = this.createPaymentClient(ctx);
+        const fetchWithPayment = wrapFetchWithPayment(this.createFetch(ctx), httpClient);
 
+        let response: Response;
+        let data: any;
         try {
-            const response = await fetchWithPayment(url, {
-                method: 'GET',
-                headers: {
-                    'Content-Type': 'application/json'
-                }
-            });
+            const headers = new Headers(init.headers);
+            const body = encodeBody(init.body, headers);
+            response = await fetchWithPayment(url, { method, headers, body, signal: ctx.signal });
+            data = await readResponseBody(response);
+        } catch (error: any) {
+            // Once a signed payment went out without an answer, it may have settled:
+            // count it rather than risk overspending
+            this.finishHolds(ctx, ctx.paidAttempts > 0);
+            if (ctx.signal?.aborted) {
+                throw this.fail(ctx, ctx.abortError || this.aborted(ctx));
+            }
+            throw this.fail(ctx, ctx.abortError ||
+                new NetworkError(`${method} ${url} failed: ${error.message}`, { ...this.errorDetails(ctx), cause: error }));
+        }
+
+        this.log(`[X402Client] [Req:${ctx.id}] 📥 Response Status: ${response.status}`);
+
+        // A 2xx to a paid request means the merchant settled. A 5xx after paying is as
+        // inconclusive as a dropped connection (it may come after settling): count it too,
+        // and so a resent payment refused for its nonce
+        const refusal = response.status === 402 ? this.paymentRefused(ctx, httpClient, response, data) : null;
+        this.finishHolds(ctx, response.ok || this.possiblySettled(ctx, response.status) ||
+            (refusal instanceof VerificationFailed && refusal.possiblySettled));
 
-            this.log(`[X402Client] 📥 Response Status: ${response.status}`);
+        if (refusal) {
+            throw this.fail(ctx, refusal);
+        }
+        if (response.status >= 400) {
+            throw this.fail(ctx, new MerchantError(response.status, data, ctx.payload !== null, this.errorDetails(ctx)));
+        }
 
-            let data;
-            const contentType = response.headers.get('content-type');
-            if (contentType && contentType.includes('application/json')) {
-                data = await response.json();
-            } else {
-                data = await response.text();
+        if (response.ok) {
+            if (ctx.payload && ctx.requirements) {
+                // Paid and settled: this is where the origin gets paid from now on
+                this.options.merchantPolicy?.remember(ctx.origin, ctx.requirements);
             }
+            ctx.receipt = await this.resolveReceipt(ctx, httpClient, response.headers);
+        }
 
-            if (response.ok) {
-                // If payment successful, try to find the transaction hash from the blockchain
-                // because the x402 protocol / facilitator might not return it directly in the response
+        return {
+            status: response.status,
+            data: data,
+            headers: response.headers,
+            receipt: ctx.receipt
+        };
+    }
+
+    /**
+     * fetch for one request: resends the signed payment on network errors and 5xx
+     * (never re-signing), and counts the paid attempts.
+     */
+    private createFetch(ctx: PaymentRequestContext) {
+        const countingFetch = (request: Request) => {
+            if (isPaidRequest(request) && ctx.requirements) {
+                ctx.paidAttempts++;
+                this.emit('paymentSent', ctx.id, ctx.url, {
+                    requirements: ctx.requirements,
+                    nonce: (ctx.payload?.payload as any)?.authorization?.nonce ?? null,
+                    attempt: ctx.paidAttempts
+                });
+            }
+            // Every hop of a redirect must pass the merchant policy: an allowed merchant
+            // must not hand the 402 (and the signed payment) on to another host
+            return fetchFollowingRedirects(request, (hop) => {
                 try {
-                    this.log("[X402Client] 🔍 Searching for transaction hash on-chain...");
-
-                    // Create a public client to query logs
-                    const publicClient = createPublicClient({
-                        chain: baseSepolia,
-                        transport: http()
-                    });
-
-                    // Get latest block
-                    const blockNumber = await publicClient.getBlockNumber();
-
-                    // Look back 10 blocks (approx 20-30 seconds) for Transfer events
-                    // From: Payer (wallet.account.address), To: PayTo (options.payTo)
-
-                    if (this.currentOptions && this.currentOptions.asset && this.currentOptions.payTo) {
-                        const tokenAddress = this.currentOptions.asset as `0x${string}`;
-                        // We need access to the wallet address kept in the closure or passed in. 
-                        // Wait, 'wallet' argument in constructor is not stored in 'this'. 
-                        // But we registered the signer! 'this.x402' has the scheme registered.
-                        // Actually, let's just assume we can get it from the signer we wrapped earlier?
-                        // The wrapper 'loggingSigner' wrapped 'wallet.account'. 
-                        // We can't easily access 'wallet.account' here unless we stored it.
-                        // Let's modify the class to store the wallet address in constructor.
-
-                        // NOTE: For this specific block replacement to work without changing constructor signature again,
-                        // I will rely on `this.walletAddress` which I will add in a separate edit or assume.
-                        // Actually, I can't add a property easily in a middle-of-file edit if I didn't add it in constructor.
-                        // I will assume `(this as any).walletAddress` is available after I patch the constructor,
-                        // OR better: I'll just use the property I added in the previous edit to `X402Client`.
-                        // Wait, I didn't store `wallet` in `X402Client`.
-
-                        // Let's rely on the fact that I can modify the constructor in the previous step to store wallet.
-                        const payerAddress = (this as any).walletAddress as `0x${string}`;
-                        const merchantAddress = this.currentOptions.payTo as `0x${string}`;
-
-                        if (tokenAddress && payerAddress && merchantAddress) {
-                            await new Promise(resolve => setTimeout(resolve, 4000));
-
-                            const searchFromBlock = startBlock ? startBlock : (blockNumber - 10n);
-
-                            // Polling loop for up to 30 seconds (10 attempts * 3s)
-                            for (let attempt = 1; attempt <= 10; attempt++) {
-                                this.log(`[X402Client] [Req:${requestId}] 🔄 Attempt ${attempt}/10: Trawling logs...`);
-
-                                // Use 'latest' to avoid client cache returning a stale block number for the upper bound
-                                const logs = await publicClient.getLogs({
-                                    address: tokenAddress,
-                                    event: parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 value)'),
-                                    args: {
-                                        from: payerAddress,
-                                        to: merchantAddress
-                                    },
-                                    fromBlock: searchFromBlock,
-                                    toBlock: 'latest' // CRITICAL FIX: Use 'latest' instead of currentBlock (which might be cached/stale)
-                                });
-
-                                let foundFreshLog = false;
-
-                                // Iterate in reverse (newest first)
-                                if (logs.length > 0) {
-                                    for (let i = logs.length - 1; i >= 0; i--) {
-                                        const log = logs[i];
-
-                                        // RELIABLE CHECK: Use Block Number AND Value
-                                        // If the log is in a block >= our startBlock, it IS new.
-                                        // We also verify the amount matches exactly to distinguish from other payments.
-                                        const expectedAmount = this.currentOptions.amount ? BigInt(this.currentOptions.amount) : 0n;
-
-                                        if (startBlock && log.blockNumber >= startBlock) {
-                                            // Additional check: Does the transfer amount match?
-                                            // log.args.value is a bigint
-                                            if (expectedAmount > 0n && log.args.value !== expectedAmount) {
-                                                this.log(`[X402Client] [Req:${requestId}] ⚠️ Found fresh but ignoring due to amount mismatch (Log: ${log.args.value}, Expected: ${expectedAmount})`);
-                                                continue;
-                                            }
-
-                                            const txHash = log.transactionHash;
-
-                                            this.log(`[X402Client] [Req:${requestId}] ✅ Found FRESH Transaction Hash: ${txHash}`);
-                                            this.log(`[X402Client] [Req:${requestId}]    Log Block: ${log.blockNumber}, Start: ${startBlock}, Amount: ${log.args.value}`);
-                                            this.log(`[X402Client] [Req:${requestId}] 🔗 Explorer: https://sepolia.basescan.org/tx/${txHash}`);
-
-                                            // Inject hash into response data
-                                            if (typeof data === 'object' && data !== null && (data as any).data) {
-                                                (data as any).data.transactionHash = txHash;
-                                                (data as any).data.network = "eip155:84532";
-                                            } else if (typeof data === 'object' && data !== null) {
-                                                (data as any).transactionHash = txHash;
-                                                (data as any).network = "eip155:84532";
-                                            }
-                                            foundFreshLog = true;
-                                            break;
-                                        } else if (!startBlock) {
-                                            // Fallback if startBlock failed: accept the most recent one
-                                            // This is risky but better than nothing
-                                            const txHash = log.transactionHash;
-                                            this.log(`[X402Client] [Req:${requestId}] ⚠️ Ambiguous Hash (No StartBlock): ${txHash}`);
-                                            if (typeof data === 'object' && data !== null && (data as any).data) {
-                                                (data as any).data.transactionHash = txHash;
-                                            }
-                                            foundFreshLog = true;
-                                            break;
-                                        } else {
-                                            // Log implies it's < startBlock, so it's old.
-                                            // this.log(`[X402Client] 🗑️ Ignored OLD log (Block ${log.blockNumber} < Start ${startBlock})`);
-                                        }
-                                    }
-                                }
-
-                                if (foundFreshLog) {
-                                    break; // Exit retry loop
-                                } else {
-                                    if (attempt < 10) {
-                                        this.log(`[X402Client] [Req:${requestId}] ⏳ No fresh logs yet. Waiting 3s...`);
-                                        await new Promise(resolve => setTimeout(resolve, 3000));
-                                    } else {
-                                        this.log(`[X402Client] [Req:${requestId}] ⚠️ Timed out waiting for fresh Transfer events.`);
-                                    }
-                                }
-                            }
-                        }
-                    } else {
-                        this.log(`[X402Client] [Req:${requestId}] ⚠️ Payment options missing: ${JSON.stringify(this.currentOptions)}`);
-                    }
+                    this.options.merchantPolicy?.checkOrigin(hop, this.errorDetails(ctx));
                 } catch (e) {
-                    this.log(`[X402Client] [Req:${requestId}] ⚠️ Error searching for tx hash: ${e}`);
+                    if (e instanceof X402Error) {
+                        ctx.abortError = e;
+                    }
+                    throw e;
+                }
+                // Whoever answers is the merchant being paid (budget, payee pinning)
+                ctx.origin = new URL(hop).origin;
+            });
+        };
+        const retryingFetch = createRetryingFetch(countingFetch, this.options.retry, ({ attempt, delayMs, reason }) => {
+            this.log(`[X402Client] [Req:${ctx.id}] 🔁 Paid request failed (${reason}); resending the same payment in ${delayMs}ms (retry ${attempt})`);
+        });
+        return (input: RequestInfo | URL, init?: RequestInit) => retryingFetch(new Request(input, init));
+    }
+
+    /**
+     * Works out why a request still ended in 402.
+     * Unpaid: wrapFetchWithPayment gave up before paying. Paid: the express middleware
+     * answers a failed settle with `{error: "Settlement failed", details}` in the body,
+     * and a failed verify with a fresh PAYMENT-REQUIRED whose `error` is the invalid reason.
+     */
+    private paymentRefused(ctx: PaymentRequestContext, httpClient: x402HTTPClient, response: Response, data: any): X402Error {
+        const details = this.errorDetails(ctx);
+        if (!ctx.payload) {
+            return new PaymentRequiredUnsatisfiable('Merchant still requires payment but none was sent', details);
+        }
+        if (data && typeof data === 'object' && data.error === 'Settlement failed') {
+            return new SettlementFailed(String(data.details || 'unknown'), details);
+        }
+
+        let invalidReason: string | undefined;
+        try {
+            invalidReason = httpClient.getPaymentRequiredResponse(name => response.headers.get(name), data).error;
+        } catch {
+            // Neither header nor body is a PaymentRequired
+        }
+        invalidReason = invalidReason || (data && data.error) || 'unknown';
+        const possiblySettled = ctx.paidAttempts > 1 && /nonce/i.test(invalidReason);
+        if (possiblySettled) {
+            this.log(`[X402Client] [Req:${ctx.id}] ⚠️ Nonce refused on a retry: an earlier attempt may already have settled`);
+        }
+        return new VerificationFailed(invalidReason, details, possiblySettled);
+    }
+
+    /**
+     * True when a signed payment went out but the request ended without a definite
+     * answer: no response, an abort, or a 5xx (given as `status`).
+     */
+    private possiblySettled(ctx: PaymentRequestContext, status?: number): boolean {
+        return ctx.paidAttempts > 0 && (status === undefined || status >= 500);
+    }
+
+    private finishHolds(ctx: PaymentRequestContext, spent: boolean) {
+        if (spent) {
+            ctx.reservation?.commit();
+            ctx.balanceHold?.spend();
+        } else {
+            ctx.reservation?.release();
+            ctx.balanceHold?.release();
+        }
+    }
+
+    private aborted(ctx: PaymentRequestContext): RequestAborted {
+        return new RequestAborted(isTimeout(ctx.signal), ctx.paidAttempts > 0, this.errorDetails(ctx));
+    }
+
+    /**
+     * Last chance to stop cleanly: called before each step that leads up to signing.
+     */
+    private throwIfAborted(ctx: PaymentRequestContext) {
+        if (ctx.signal?.aborted) {
+            ctx.abortError = this.aborted(ctx);
+            throw ctx.abortError;
+        }
+    }
+
+    private errorDetails(ctx: PaymentRequestContext): X402ErrorDetails {
+        return { url: ctx.url, requestId: ctx.id, requirements: ctx.requirements };
+    }
+
+    private fail(ctx: PaymentRequestContext, error: X402Error): X402Error {
+        this.emit('failed', ctx.id, ctx.url, {
+            code: error.code,
+            side: error.side,
+            message: error.message,
+            paymentSent: ctx.paidAttempts > 0,
+            possiblySettled: error instanceof MerchantError
+                ? this.possiblySettled(ctx, error.status)
+                : error instanceof VerificationFailed
+                    ? error.possiblySettled
+                    : !(error instanceof SettlementFailed) && this.possiblySettled(ctx)
+        });
+        return error;
+    }
+
+    private emit<K extends PaymentEventType>(type: K, requestId: string, url: string, payload: PaymentEventMap[K]) {
+        const event = this.events.emit(type, { requestId, url }, payload);
+        this.log(renderPaymentEvent(event as PaymentEvent));
+    }
+
+    /**
+     * x402 client bound to a single request's context.
+     */
+    private createPaymentClient(ctx: PaymentRequestContext): x402HTTPClient {
+        // The policy has already narrowed the options down to one (see selectOption)
+        const client = new x402Client((_version, options) => options[0]);
+        registerExactEvmScheme(client, { signer: this.createSigner(ctx) });
+        client.onAfterPaymentCreation(async ({ paymentPayload }) => {
+            ctx.payload = paymentPayload;
+        });
+        client.onPaymentCreationFailure(async ({ error }) => {
+            ctx.abortError ??= error instanceof X402Error
+                ? error
+                : new SigningRejected(`Could not sign payment: ${error.message}`, { ...this.errorDetails(ctx), cause: error });
+        });
+        return new SelectingHTTPClient(client, ctx, (paymentRequired) => this.selectOption(ctx, paymentRequired));
+    }
+
+    /**
+     * Signer for one request. It only signs the TransferWithAuthorization for the
+     * option this request selected, and refuses anything else (see ./signingPolicy).
+     * The scheme only ever asks for typed data; raw transactions and messages are not exposed.
+     */
+    private createSigner(ctx: PaymentRequestContext): ClientEvmSigner {
+        const signer = this.wallet.signer;
+        return {
+            address: signer.address,
+            signTypedData: async (args: any) => {
+                this.throwIfAborted(ctx);
+                const violation = checkTransferAuthorization(args, ctx.requirements, signer.address, this.options.signingPolicy);
+                if (violation) {
+                    this.log(`[X402Client] [Req:${ctx.id}] 🛡️ Signing refused: ${violation}`);
+                    ctx.abortError = new SigningRejected(`Signing policy refused: ${violation}`, this.errorDetails(ctx));
+                    throw ctx.abortError;
                 }
+
+                this.emit('signing', ctx.id, ctx.url, { requirements: ctx.requirements!, signer: signer.kind, address: signer.address });
+                this.log(`[X402Client] [Req:${ctx.id}] ℹ️ Domain: ${JSON.stringify(args.domain)}`);
+                return signer.signTypedData(args);
             }
+        };
+    }
 
-            return {
-                status: response.status,
-                data: data,
-                headers: response.headers
-            };
-        } catch (error: any) {
-            this.log(`[X402Client] ❌ Error: ${error.message}`);
-            // Mimic axios error structure for compatibility
-            throw {
-                message: error.message,
-                response: {
-                    status: 500, // Unknown error
-                    data: error.message
+    /**
+     * Runs the selection policy over the 402's options and returns the PaymentRequired
+     * narrowed to the chosen one. Async, unlike the x402Client selector, so policies
+     * can look at balances.
+     */
+    private async selectOption(ctx: PaymentRequestContext, paymentRequired: PaymentRequired): Promise<PaymentRequired> {
+        this.throwIfAborted(ctx);
+        ctx.crossChain = extractCrossChain(paymentRequired);
+        this.emit('quoteReceived', ctx.id, ctx.url, { options: paymentRequired.accepts, crossChain: ctx.crossChain, dryRun: false });
+
+        // An amount that is no number is never paid, nor priced, held or budgeted
+        const invalid = paymentRequired.accepts.map(invalidAmount).filter(reason => reason !== null);
+        invalid.forEach(reason => this.log(`[X402Client] [Req:${ctx.id}] ⚠️ Option ignored: ${reason}`));
+        const supported = paymentRequired.accepts.filter(o => isSupported(o) && invalidAmount(o) === null);
+        const decision = await this.step(ctx, selectPaymentOption(this.selectionPolicy, supported, this.selectionContext()));
+
+        if (!decision) {
+            ctx.abortError = new PaymentRequiredUnsatisfiable(
+                invalid.length === paymentRequired.accepts.length && invalid.length > 0
+                    ? invalid[0]
+                    : `No acceptable payment option among ${paymentRequired.accepts.length} offered (${this.selectionPolicy.name})`,
+                this.errorDetails(ctx)
+            );
+            throw ctx.abortError;
+        }
+
+        const selected = decision.option;
+        ctx.requirements = selected;
+        this.emit('optionSelected', ctx.id, ctx.url, { option: selected, reason: decision.reason, policy: this.selectionPolicy.name });
+
+        if (this.options.merchantPolicy) {
+            try {
+                this.checkPayee(ctx.id, ctx.url, ctx.origin, selected, this.options.merchantPolicy, this.errorDetails(ctx));
+            } catch (e) {
+                if (e instanceof X402Error) {
+                    ctx.abortError = e;
                 }
-            };
+                throw e;
+            }
+        }
+
+        if (this.options.approvePayment) {
+            await this.approve(ctx, selected, this.options.approvePayment);
+        }
+
+        if (this.balances) {
+            const hold = this.balances.hold(selected, this.errorDetails(ctx));
+            try {
+                ctx.balanceHold = await this.step(ctx, hold);
+                this.log(`[X402Client] [Req:${ctx.id}] 💰 Balance covers ${selected.amount} of ${selected.asset}`);
+            } catch (e: any) {
+                if (e instanceof RequestAborted) {
+                    // The hold may still be granted after we stopped waiting for it
+                    hold.then(h => h.release(), () => { });
+                }
+                if (e instanceof X402Error) {
+                    ctx.abortError = e;
+                    throw e;
+                }
+                // Could not read the balance (RPC down): leave it to the facilitator's verify
+                this.log(`[X402Client] [Req:${ctx.id}] ⚠️ Balance check skipped: ${e.shortMessage || e.message}`);
+            }
+        }
+
+        if (this.options.budget) {
+            try {
+                ctx.reservation = this.options.budget.reserve(ctx.origin, selected);
+            } catch (e) {
+                if (e instanceof X402Error) {
+                    ctx.abortError = e;
+                }
+                throw e;
+            }
+        }
+
+        if (this.options.onChainFallback) {
+            try {
+                ctx.startBlock = await abortable(this.chains.clientFor(selected.network).getBlockNumber({ cacheTime: 0 }), ctx.signal);
+                this.log(`[X402Client] [Req:${ctx.id}] ⏱️ Start Block: ${ctx.startBlock}`);
+            } catch (e) {
+                this.log(`[X402Client] [Req:${ctx.id}] ⚠️ Could not get start block: ${e}`);
+            }
+        }
+
+        this.throwIfAborted(ctx);
+        return { ...paymentRequired, accepts: [selected] };
+    }
+
+    private async approve(ctx: PaymentRequestContext, selected: PaymentRequirements, approvePayment: NonNullable<X402ClientOptions['approvePayment']>) {
+        let refusal: string | null;
+        try {
+            const option = toQuoteOption(selected, await this.step(ctx, this.tokenMetadata(selected)), ctx.crossChain ?? null);
+            refusal = await this.step(ctx, approvePayment({ requestId: ctx.id, url: ctx.url, origin: ctx.origin, option }));
+        } catch (e: any) {
+            if (e instanceof X402Error) {
+                ctx.abortError = e;
+                throw e;
+            }
+            refusal = `Payment approval failed: ${e.message}`;
+        }
+        if (refusal !== null) {
+            ctx.abortError = new PaymentDeclined(refusal, this.errorDetails(ctx));
+            throw ctx.abortError;
+        }
+    }
+
+    /**
+     * Checks the option's payTo against the merchant policy, reporting a changed payee
+     * whether the policy refuses it (throws MerchantNotTrusted) or only warns.
+     */
+    private checkPayee(requestId: string, url: string, origin: string, option: PaymentRequirements, policy: MerchantPolicy, details: X402ErrorDetails) {
+        const changed = (previousPayTo: string, action: 'blocked' | 'warned') =>
+            this.emit('payeeChanged', requestId, url, { origin, network: option.network, previousPayTo, payTo: option.payTo, action });
+        try {
+            const { previousPayTo } = policy.checkPayee(origin, option, details);
+            if (previousPayTo) {
+                changed(previousPayTo, 'warned');
+            }
+        } catch (e) {
+            if (e instanceof MerchantNotTrusted && e.previousPayTo) {
+                changed(e.previousPayTo, 'blocked');
+            }
+            throw e;
+        }
+    }
+
+    /**
+     * Awaits one step of the payment flow, giving up as soon as the request is aborted.
+     */
+    private async step<T>(ctx: PaymentRequestContext, promise: Promise<T>): Promise<T> {
+        try {
+            return await abortable(promise, ctx.signal);
+        } catch (e) {
+            this.throwIfAborted(ctx);
+            throw e;
+        }
+    }
+
+    private selectionContext(): SelectionContext {
+        return {
+            payer: this.walletAddress ?? '',
+            readBalance: (option) => this.balances ? this.balances.balanceOf(option) : this.readBalance(option)
+        };
+    }
+
+    // authorizationList is required by viem's types in our non-strict build
+    private async readBalance(option: PaymentRequirements): Promise<bigint> {
+        if (!this.walletAddress) {
+            throw new Error('No wallet: balance unknown');
         }
+        return await this.chains.clientFor(option.network).readContract({
+            address: option.asset as `0x${string}`,
+            abi: ERC20_BALANCE_ABI,
+            functionName: 'balanceOf',
+            args: [this.walletAddress as `0x${string}`],
+            authorizationList: undefined
+        });
     }
+
+    /**
+     * Symbol and decimals of an option's token: from the network registry, else read
+     * on-chain (cached). Null when we cannot tell.
+     */
+    private tokenMetadata(option: PaymentRequirements): Promise<TokenMetadata | null> {
+        const key = `${option.network}:${option.asset.toLowerCase()}`;
+        let metadata = this.tokens.get(key);
+        if (!metadata) {
+            const known = findToken(option.network, option.asset);
+            metadata = known
+                ? Promise.resolve({ symbol: known.symbol, decimals: known.decimals })
+                : this.readTokenMetadata(option).catch(() => null);
+            this.tokens.set(key, metadata);
+        }
+        return metadata;
+    }
+
+    private async readTokenMetadata(option: PaymentRequirements): Promise<TokenMetadata> {
+        const client = this.chains.clientFor(option.network);
+        const token = { address: option.asset as `0x${string}`, abi: ERC20_METADATA_ABI, authorizationList: undefined };
+        const [symbol, decimals] = await Promise.all([
+            client.readContract({ ...token, functionName: 'symbol' }),
+            client.readContract({ ...token, functionName: 'decimals' })
+        ]);
+        return { symbol, decimals };
+    }
+
+    private resolveUrl(endpoint: string): string {
+        return endpoint.startsWith('http') ? endpoint : `${this.baseUrl}${endpoint.startsWith('/') ? '' : '/'}${endpoint}`;
+    }
+
+    /**
+     * Reads the settlement receipt from the PAYMENT-RESPONSE header.
+     * With `onChainFallback` the receipt is confirmed on-chain, or searched for in
+     * Transfer logs when the merchant did not send the header at all.
+     */
+    private async resolveReceipt(ctx: PaymentRequestContext, httpClient: x402HTTPClient, headers: Headers): Promise<PaymentReceipt | null> {
+        const requirements = ctx.requirements;
+        let receipt = decodePaymentReceipt(httpClient, headers, requirements, this.walletAddress);
+
+        if (requirements && ctx.payload) {
+            this.emit('verified', ctx.id, ctx.url, { requirements });
+            this.emit('settled', ctx.id, ctx.url, {
+                transaction: receipt?.transaction ?? null,
+                network: receipt?.network ?? requirements.network,
+                payer: receipt?.payer ?? null
+            });
+            if (!receipt) {
+                this.log(`[X402Client] [Req:${ctx.id}] ⚠️ No PAYMENT-RESPONSE header on paid response`);
+            }
+            if (ctx.crossChain) {
+                this.emit('bridgeStarted', ctx.id, ctx.url, {
+                    ...ctx.crossChain,
+                    sourceNetwork: requirements.network,
+                    transaction: receipt?.transaction ?? null
+                });
+            }
+        }
+
+        if (this.options.onChainFallback && requirements) {
+            receipt = await this.checkReceiptOnChain(ctx, requirements, receipt);
+        }
+
+        if (receipt) {
+            this.emit('receiptResolved', ctx.id, ctx.url, {
+                receipt,
+                explorerUrl: explorerTxUrl(receipt.network, receipt.transaction) ?? null
+            });
+        }
+        return receipt;
+    }
+
+    private async checkReceiptOnChain(
+        ctx: PaymentRequestContext,
+        requirements: PaymentRequirements,
+        receipt: PaymentReceipt | null
+    ): Promise<PaymentReceipt | null> {
+        const publicClient = this.chains.clientFor(receipt?.network || requirements.network);
+        try {
+            if (receipt) {
+                receipt.verifiedOnChain = await confirmReceiptOnChain(publicClient, receipt, ctx.signal);
+                this.log(receipt.verifiedOnChain
+                    ? `[X402Client] [Req:${ctx.id}] ✅ Receipt confirmed on-chain`
+                    : `[X402Client] [Req:${ctx.id}] ⚠️ Receipt transaction has no matching Transfer`);
+            } else if (ctx.startBlock !== undefined) {
+                this.log(`[X402Client] [Req:${ctx.id}] 🔍 Falling back to on-chain Transfer search...`);
+                receipt = await findReceiptOnChain(publicClient, requirements, this.walletAddress, ctx.startBlock, this.log, undefined, undefined, ctx.signal);
+                if (!receipt) {
+                    this.log(`[X402Client] [Req:${ctx.id}] ⚠️ Timed out waiting for Transfer events.`);
+                }
+            }
+        } catch (e) {
+            // Paid and answered already: an abort here only cuts the lookup short
+            this.log(ctx.signal?.aborted
+                ? `[X402Client] [Req:${ctx.id}] ⏹️ On-chain receipt check aborted`
+                : `[X402Client] [Req:${ctx.id}] ⚠️ On-chain receipt check failed: ${e}`);
+        }
+        return receipt;
+    }
+}
+
+const ERC20_BALANCE_ABI = [{
+    name: 'balanceOf',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'account', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }]
+}] as const;
+
+const ERC20_METADATA_ABI = [
+    { name: 'symbol', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'string' }] },
+    { name: 'decimals', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ name: '', type: 'uint8' }] }
+] as const;
+
+/**
+ * x402HTTPClient whose payload creation first runs our (async) option selection.
+ * wrapFetchWithPayment accepts it in place of the plain HTTP client.
+ */
+class SelectingHTTPClient extends x402HTTPClient {
+    constructor(
+        client: x402Client,
+        private ctx: PaymentRequestContext,
+        private select: (paymentRequired: PaymentRequired) => Promise<PaymentRequired>
+    ) {
+        super(client);
+    }
+
+    getPaymentRequiredResponse(getHeader: (name: string) => string | null | undefined, body?: unknown): PaymentRequired {
+        try {
+            return super.getPaymentRequiredResponse(getHeader, body);
+        } catch (e: any) {
+            this.ctx.abortError ??= new PaymentRequiredUnsatisfiable(`Unreadable 402 payment requirements: ${e.message}`, {
+                url: this.ctx.url,
+                requestId: this.ctx.id,
+                cause: e
+            });
+            throw e;
+        }
+    }
+
+    async createPaymentPayload(paymentRequired: PaymentRequired) {
+        return super.createPaymentPayload(await this.select(paymentRequired));
+    }
+}
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+const MAX_REDIRECTS = 20;
+const CROSS_ORIGIN_STRIPPED_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'payment-signature', 'x-payment'];
+
+/**
+ * fetch that follows redirects itself, calling `onHop` with every URL it is about to
+ * request (a redirect target) and the URL that finally answers. onHop throws to stop.
+ * A hop to another origin drops the credentials and the payment headers.
+ */
+async function fetchFollowingRedirects(request: Request, onHop: (url: string) => void): Promise<Response> {
+    let current = request;
+    for (let hops = 0; ; hops++) {
+        const response = await fetch(current.clone(), { redirect: 'manual' });
+        const location = response.headers.get('location');
+        if (!REDIRECT_STATUSES.includes(response.status) || !location) {
+            onHop(current.url);
+            return response;
+        }
+        await response.body?.cancel();
+        if (hops >= MAX_REDIRECTS) {
+            throw new Error(`more than ${MAX_REDIRECTS} redirects`);
+        }
+
+        const next = new URL(location, current.url).toString();
+        onHop(next);
+        // As fetch does: 303 (and 301/302 after a POST) turn into a GET without a body
+        const toGet = response.status === 303 || ((response.status === 301 || response.status === 302) && current.method === 'POST');
+        const headers = new Headers(current.headers);
+        if (toGet) {
+            headers.delete('content-type');
+            headers.delete('content-length');
+        }
+        // Credentials and the signed payment are for the origin they were sent to
+        if (new URL(next).origin !== new URL(current.url).origin) {
+            CROSS_ORIGIN_STRIPPED_HEADERS.forEach(name => headers.delete(name));
+        }
+        current = new Request(next, {
+            method: toGet ? 'GET' : current.method,
+            headers,
+            body: toGet || current.method === 'GET' || current.method === 'HEAD' ? undefined : await current.arrayBuffer(),
+            signal: current.signal
+        });
+    }
+}
+
+async function readResponseBody(response: Response): Promise<any> {
+    const text = await response.text();
+    const contentType = response.headers.get('content-type');
+    if (contentType && contentType.includes('application/json') && text) {
+        try {
+            return JSON.parse(text);
+        } catch {
+            // Mislabelled body: hand it back as text
+        }
+    }
+    return text;
+}
+
+function encodeBody(body: unknown, headers: Headers): BodyInit | undefined {
+    if (body === undefined || body === null) {
+        return undefined;
+    }
+    if (typeof body === 'string' ||
+        body instanceof FormData ||
+        body instanceof URLSearchParams ||
+        body instanceof Blob ||
+        body instanceof ArrayBuffer ||
+        ArrayBuffer.isView(body)) {
+        // fetch sets Content-Type itself for FormData/URLSearchParams
+        return body as BodyInit;
+    }
+    if (!headers.has('Content-Type')) {
+        headers.set('Content-Type', 'application/json');
+    }
+    return JSON.stringify(body);
+}
+
+// Only the EVM exact scheme is registered
+function isSupported(option: PaymentRequirements): boolean {
+    return option.scheme === 'exact' && option.network.startsWith('eip155:');
 }
@@ -0,0 +1,186 @@
+import type { PaymentRequirements } from '@x402/core/types';
+
+/**
+ * Errors thrown by X402Client.
+ *
+ * Every error has a machine-readable `code` and a `side`:
+ * - 'payment'  - we could not or would not pay, or the payment was refused (PaymentError)
+ * - 'merchant' - the merchant answered with an error unrelated to payment (MerchantError)
+ * - 'network'  - we never got an answer (NetworkError)
+ * - 'client'   - the caller cancelled or the deadline passed (RequestAborted)
+ */
+
+export type X402ErrorCode =
+    | 'PAYMENT_REQUIRED_UNSATISFIABLE'
+    | 'SIGNING_REJECTED'
+    | 'VERIFICATION_FAILED'
+    | 'SETTLEMENT_FAILED'
+    | 'BUDGET_EXCEEDED'
+    | 'PAYMENT_DECLINED'
+    | 'MERCHANT_NOT_TRUSTED'
+    | 'INSUFFICIENT_BALANCE'
+    | 'UNKNOWN_ASSET'
+    | 'MERCHANT_ERROR'
+    | 'NETWORK_ERROR'
+    | 'ABORTED';
+
+export type X402ErrorSide = 'payment' | 'merchant' | 'network' | 'client';
+
+export interface X402ErrorDetails {
+    url?: string;
+    requestId?: string;
+    requirements?: PaymentRequirements | null;
+    cause?: unknown;
+}
+
+export class X402Error extends Error {
+    readonly code: X402ErrorCode;
+    readonly side: X402ErrorSide;
+    readonly url?: string;
+    readonly requestId?: string;
+    readonly requirements?: PaymentRequirements | null;
+    readonly cause?: unknown;
+
+    constructor(code: X402ErrorCode, side: X402ErrorSide, message: string, details: X402ErrorDetails = {}) {
+        super(message);
+        this.name = new.target.name;
+        this.code = code;
+        this.side = side;
+        this.url = details.url;
+        this.requestId = details.requestId;
+        this.requirements = details.requirements;
+        this.cause = details.cause;
+    }
+}
+
+export class PaymentError extends X402Error {
+    constructor(code: X402ErrorCode, message: string, details?: X402ErrorDetails) {
+        super(code, 'payment', message, details);
+    }
+}
+
+/**
+ * The 402 offered nothing we can or are willing to pay with
+ * (unsupported schemes, rejected by the selection policy, unparseable requirements).
+ */
+export class PaymentRequiredUnsatisfiable extends PaymentError {
+    constructor(message: string, details?: X402ErrorDetails) {
+        super('PAYMENT_REQUIRED_UNSATISFIABLE', message, details);
+    }
+}
+
+/**
+ * The signer refused (or failed) to sign the payment authorization.
+ */
+export class SigningRejected extends PaymentError {
+    constructor(message: string, details?: X402ErrorDetails) {
+        super('SIGNING_REJECTED', message, details);
+    }
+}
+
+/**
+ * We chose not to pay this price (the approvePayment hook said no).
+ */
+export class PaymentDeclined extends PaymentError {
+    constructor(message: string, details?: X402ErrorDetails) {
+        super('PAYMENT_DECLINED', message, details);
+    }
+}
+
+/**
+ * The payer does not hold enough of the asset (found before signing).
+ */
+export class InsufficientBalance extends PaymentError {
+    readonly balance: bigint;
+    readonly required: bigint;
+
+    constructor(balance: bigint, required: bigint, details?: X402ErrorDetails) {
+        const asset = details?.requirements ? ` of ${details.requirements.asset} on ${details.requirements.network}` : '';
+        super('INSUFFICIENT_BALANCE', `Insufficient balance: have ${balance}, need ${required}${asset}`, details);
+        this.balance = balance;
+        this.required = required;
+    }
+}
+
+/**
+ * The asset is not a token contract we can read on its network.
+ */
+export class UnknownAsset extends PaymentError {
+    readonly asset: string;
+
+    constructor(asset: string, network: string, details?: X402ErrorDetails) {
+        super('UNKNOWN_ASSET', `Unknown asset ${asset} on ${network}`, details);
+        this.asset = asset;
+    }
+}
+
+/**
+ * The facilitator rejected the signed payment during verify.
+ * `possiblySettled` is set when a resent payment was refused for its nonce:
+ * an earlier attempt may have settled it.
+ */
+export class VerificationFailed extends PaymentError {
+    readonly invalidReason: string;
+    readonly possiblySettled: boolean;
+
+    constructor(invalidReason: string, details?: X402ErrorDetails, possiblySettled = false) {
+        super('VERIFICATION_FAILED', `Payment verification failed: ${invalidReason}`, details);
+        this.invalidReason = invalidReason;
+        this.possiblySettled = possiblySettled;
+    }
+}
+
+/**
+ * The payment verified but could not be settled on-chain.
+ */
+export class SettlementFailed extends PaymentError {
+    readonly errorReason: string;
+
+    constructor(errorReason: string, details?: X402ErrorDetails) {
+        super('SETTLEMENT_FAILED', `Payment settlement failed: ${errorReason}`, details);
+        this.errorReason = errorReason;
+    }
+}
+
+/**
+ * The merchant answered with a non-payment error (4xx other than 402, or 5xx).
+ * `paid` tells whether a payment had been sent with the failing request.
+ */
+export class MerchantError extends X402Error {
+    readonly status: number;
+    readonly body: unknown;
+    readonly paid: boolean;
+
+    constructor(status: number, body: unknown, paid: boolean, details?: X402ErrorDetails) {
+        super('MERCHANT_ERROR', 'merchant', `Merchant responded with HTTP ${status}`, details);
+        this.status = status;
+        this.body = body;
+        this.paid = paid;
+    }
+}
+
+/**
+ * The request never got a response (DNS, refused connection, reset, ...).
+ */
+export class NetworkError extends X402Error {
+    constructor(message: string, details?: X402ErrorDetails) {
+        super('NETWORK_ERROR', 'network', message, details);
+    }
+}
+
+/**
+ * The request was cancelled through its AbortSignal, or ran past its deadline.
+ * `paymentSent` tells whether a signed payment had already gone out, in which
+ * case the merchant may have settled it.
+ */
+export class RequestAborted extends X402Error {
+    readonly timedOut: boolean;
+    readonly paymentSent: boolean;
+
+    constructor(timedOut: boolean, paymentSent: boolean, details?: X402ErrorDetails) {
+        const what = timedOut ? 'Request deadline exceeded' : 'Request aborted';
+        super('ABORTED', 'client', paymentSent ? `${what} after the payment was sent` : `${what} before any payment was sent`, details);
+        this.timedOut = timedOut;
+        this.paymentSent = paymentSent;
+    }
+}
@@ -0,0 +1,126 @@
+import type { PaymentRequirements } from '@x402/core/types';
+import type { PaymentReceipt } from './receipt';
+import type { CrossChainInfo } from './quote';
+import type { X402ErrorCode, X402ErrorSide } from './errors';
+
+/**
+ * Structured progress of paid requests. Every event names the request it belongs
+ * to, so listeners can follow concurrent requests apart. The text logs are
+ * rendered from these (see renderPaymentEvent); UIs and tooling can use them directly.
+ *
+ * Only types are imported here so the dashboard can use this module in the browser.
+ */
+
+export interface PaymentEventMap {
+    // The merchant answered 402 (or a quote was taken)
+    quoteReceived: { options: PaymentRequirements[]; crossChain: CrossChainInfo | null; dryRun: boolean };
+    optionSelected: { option: PaymentRequirements; reason: string; policy: string };
+    signing: { requirements: PaymentRequirements; signer: string; address: string };
+    // The signed payment went out (attempt > 1 on retries, same nonce)
+    paymentSent: { requirements: PaymentRequirements; nonce: string | null; attempt: number };
+    // The merchant accepted the payment. x402 reports verify and settle in one
+    // response, so this and `settled` arrive together; a rejection is `failed`.
+    verified: { requirements: PaymentRequirements };
+    settled: { transaction: string | null; network: string; payer: string | null };
+    receiptResolved: { receipt: PaymentReceipt; explorerUrl: string | null };
+    // Settled on the source chain; the facilitator bridges to the merchant's destination
+    bridgeStarted: CrossChainInfo & { sourceNetwork: string; transaction: string | null };
+    // possiblySettled: the payment went out and the merchant never definitely refused it
+    // (no answer, an abort or a 5xx), so it may have been settled and is counted as spent
+    failed: { code: X402ErrorCode; side: X402ErrorSide; message: string; paymentSent: boolean; possiblySettled: boolean };
+    // The agent waits for a human before signing (see agent/approvals); expiresAt null when it waits indefinitely
+    approvalRequested: { option: PaymentRequirements; priceUsd: number | null; reason: string; expiresAt: number | null };
+    approvalDecided: { option: PaymentRequirements; approved: boolean; approver: string; reason: string | null };
+    // The merchant asks to be paid somewhere else than before (see ./merchantPolicy): a possible hijack
+    payeeChanged: { origin: string; network: string; previousPayTo: string; payTo: string; action: 'blocked' | 'warned' };
+}
+
+export type PaymentEventType = keyof PaymentEventMap;
+
+export interface PaymentEventBase {
+    requestId: string;
+    url: string;
+    at: number;
+}
+
+export type PaymentEventOf<K extends PaymentEventType> = { type: K } & PaymentEventBase & PaymentEventMap[K];
+
+export type PaymentEvent = { [K in PaymentEventType]: PaymentEventOf<K> }[PaymentEventType];
+
+export type PaymentEventListener<K extends PaymentEventType> = (event: PaymentEventOf<K>) => void;
+
+/**
+ * Minimal typed emitter (no Node dependency). A throwing listener never breaks a payment.
+ */
+export class PaymentEventEmitter {
+    private listeners = new Map<PaymentEventType | '*', Set<(event: any) => void>>();
+
+    /**
+     * Subscribes to one event type; returns the unsubscribe function.
+     */
+    on<K extends PaymentEventType>(type: K, listener: PaymentEventListener<K>): () => void {
+        return this.add(type, listener);
+    }
+
+    /**
+     * Subscribes to every event.
+     */
+    onAny(listener: (event: PaymentEvent) => void): () => void {
+        return this.add('*', listener);
+    }
+
+    emit<K extends PaymentEventType>(type: K, base: Omit<PaymentEventBase, 'at'>, payload: PaymentEventMap[K]): PaymentEventOf<K> {
+        const event = { type, ...base, at: Date.now(), ...payload } as unknown as PaymentEventOf<K>;
+        for (const listener of [...(this.listeners.get(type) || []), ...(this.listeners.get('*') || [])]) {
+            try {
+                listener(event);
+            } catch (e) {
+                console.error(`[PaymentEvents] listener for ${type} threw`, e);
+            }
+        }
+        return event;
+    }
+
+    private add(key: PaymentEventType | '*', listener: (event: any) => void): () => void {
+        let set = this.listeners.get(key);
+        if (!set) {
+            set = new Set();
+            this.listeners.set(key, set);
+        }
+        set.add(listener);
+        return () => set!.delete(listener);
+    }
+}
+
+/**
+ * The log line for an event, in the client's usual format.
+ */
+export function renderPaymentEvent(event: PaymentEvent): string {
+    const prefix = `[X402Client] [Req:${event.requestId}]`;
+    switch (event.type) {
+        case 'quoteReceived':
+            return `${prefix} 📋 ${event.dryRun ? 'Quote' : 'Payment required'}: ${event.options.length} option(s) ${JSON.stringify(event.options)}`;
+        case 'optionSelected':
+            return `${prefix} ✨ Selected option: ${event.option.network} (${event.option.amount} ${event.option.asset}) - ${event.reason}`;
+        case 'signing':
+            return `${prefix} ✍️ Signing payment authorization with ${event.signer} signer ${event.address}`;
+        case 'paymentSent':
+            return `${prefix} 💸 Payment sent${event.attempt > 1 ? ` (attempt ${event.attempt})` : ''}, nonce ${event.nonce}`;
+        case 'verified':
+            return `${prefix} ✅ Payment accepted by merchant`;
+        case 'settled':
+            return `${prefix} 🧾 Settlement receipt: ${event.transaction ?? 'none'} (${event.network})`;
+        case 'receiptResolved':
+            return `${prefix} 🔗 Receipt ${event.receipt.transaction} (${event.receipt.source}${event.receipt.verifiedOnChain ? ', confirmed on-chain' : ''})${event.explorerUrl ? ` ${event.explorerUrl}` : ''}`;
+        case 'bridgeStarted':
+            return `${prefix} 🌉 Bridging ${event.sourceNetwork} -> ${event.destinationNetwork} to ${event.destinationPayTo}`;
+        case 'failed':
+            return `${prefix} ❌ ${event.code}: ${event.message}${event.possiblySettled ? ' (the payment may have settled)' : ''}`;
+        case 'approvalRequested':
+            return `${prefix} 🙋 Waiting for approval: ${event.reason}`;
+        case 'approvalDecided':
+            return `${prefix} ${event.approved ? '👍 Approved' : '👎 Denied'} by ${event.approver}${event.reason ? ` (${event.reason})` : ''}`;
+        case 'payeeChanged':
+            return `${prefix} 🚨 Possible hijack: ${event.origin} now asks to be paid at ${event.payTo} on ${event.network}, was ${event.previousPayTo} (${event.action === 'blocked' ? 'refused' : 'paying anyway'})`;
+    }
+}
@@ -0,0 +1,254 @@
+import fs from 'fs';
+import path from 'path';
+import type { PaymentRequirements } from '@x402/core/types';
+import type { PaymentReceipt } from './receipt';
+import type { PaymentEventEmitter } from './events';
+import type { X402ErrorCode } from './errors';
+
+/**
+ * Durable record of every payment the agent signed and sent, for reconciliation.
+ *
+ * Fed from a client's payment events (see attach()). Entries are appended to a
+ * JSONL file; an update appends the entry's new state, and reading keeps the
+ * last line per id, so a crash never corrupts earlier records.
+ *
+ * The store is read once, on first use; after that the ledger answers from memory
+ * and only appends. It must be the store's only writer.
+ */
+
+export type LedgerStatus =
+    // Sent, no answer yet
+    | 'pending'
+    // Merchant reported settlement (receipt from the PAYMENT-RESPONSE header)
+    | 'settled'
+    // Settlement seen on-chain
+    | 'confirmed'
+    // Refused by the merchant/facilitator (verify or settle failed)
+    | 'failed'
+    // Sent, but we never got a conclusive answer (network error, abort, 5xx): may have settled
+    | 'unknown'
+    // Approved by a human, not sent yet
+    | 'approved'
+    // Denied by a human (or timed out): never signed
+    | 'declined';
+
+export interface LedgerApproval {
+    approved: boolean;
+    // Who decided: a name, "timeout" or "aborted"
+    approver: string;
+    reason: string | null;
+    decidedAt: number;
+}
+
+export interface LedgerEntry {
+    // Request id from the payment events
+    id: string;
+    url: string;
+    origin: string;
+    payer: string | null;
+    requirements: PaymentRequirements;
+    // EIP-3009 authorization nonce: unique per payment, settles at most once
+    nonce: string | null;
+    status: LedgerStatus;
+    receipt: PaymentReceipt | null;
+    error: { code: X402ErrorCode; message: string } | null;
+    attempts: number;
+    // Set when a human was asked before paying
+    approval?: LedgerApproval;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface LedgerStore {
+    load(): LedgerEntry[];
+    append(entry: LedgerEntry): void;
+}
+
+export class MemoryLedgerStore implements LedgerStore {
+    private lines: LedgerEntry[] = [];
+
+    load() {
+        return [...this.lines];
+    }
+
+    append(entry: LedgerEntry) {
+        this.lines.push({ ...entry });
+    }
+}
+
+/**
+ * Append-only JSONL file (default .synergy/payments.jsonl).
+ */
+export class JsonlLedgerStore implements LedgerStore {
+    constructor(private filePath: string = path.resolve(process.cwd(), '.synergy', 'payments.jsonl')) { }
+
+    load(): LedgerEntry[] {
+        if (!fs.existsSync(this.filePath)) {
+            return [];
+        }
+        return fs.readFileSync(this.filePath, 'utf-8')
+            .split('\n')
+            .filter(line => line.trim() !== '')
+            .flatMap(line => {
+                try {
+                    return [JSON.parse(line)];
+                } catch {
+                    // Torn last line after a crash
+                    return [];
+                }
+            });
+    }
+
+    append(entry: LedgerEntry) {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n');
+    }
+}
+
+export class PaymentLedger {
+    private attached = new WeakSet<PaymentEventEmitter>();
+    private payers = new Map<string, string>();
+    // Latest state per id, loaded from the store on first use
+    private index: Map<string, LedgerEntry> | null = null;
+
+    constructor(private store: LedgerStore = new MemoryLedgerStore()) { }
+
+    /**
+     * Records the payments reported by a client's events. Attaching the same emitter twice is a no-op.
+     */
+    attach(events: PaymentEventEmitter) {
+        if (this.attached.has(events)) return;
+        this.attached.add(events);
+
+        events.on('signing', (e) => {
+            this.payers.set(e.requestId, e.address);
+        });
+        events.on('approvalDecided', (e) => {
+            this.append({
+                id: e.requestId,
+                url: e.url,
+                origin: new URL(e.url).origin,
+                payer: null,
+                requirements: e.option,
+                nonce: null,
+                status: e.approved ? 'approved' : 'declined',
+                receipt: null,
+                error: null,
+                attempts: 0,
+                approval: { approved: e.approved, approver: e.approver, reason: e.reason, decidedAt: e.at },
+                createdAt: e.at,
+                updatedAt: e.at
+            });
+        });
+        events.on('paymentSent', (e) => {
+            const existing = this.get(e.requestId);
+            if (existing?.status === 'approved') {
+                this.update(e.requestId, {
+                    payer: this.payers.get(e.requestId) ?? null,
+                    requirements: e.requirements,
+                    nonce: e.nonce,
+                    attempts: e.attempt,
+                    status: 'pending'
+                }, e.at);
+                this.payers.delete(e.requestId);
+                return;
+            }
+            if (existing) {
+                this.update(e.requestId, { attempts: e.attempt, status: 'pending' });
+                return;
+            }
+            this.append({
+                id: e.requestId,
+                url: e.url,
+                origin: new URL(e.url).origin,
+                payer: this.payers.get(e.requestId) ?? null,
+                requirements: e.requirements,
+                nonce: e.nonce,
+                status: 'pending',
+                receipt: null,
+                error: null,
+                attempts: e.attempt,
+                createdAt: e.at,
+                updatedAt: e.at
+            });
+            this.payers.delete(e.requestId);
+        });
+        events.on('settled', (e) => {
+            this.update(e.requestId, { status: 'settled' }, e.at);
+        });
+        events.on('receiptResolved', (e) => {
+            this.update(e.requestId, {
+                receipt: e.receipt,
+                status: e.receipt.verifiedOnChain ? 'confirmed' : 'settled'
+            }, e.at);
+        });
+        events.on('failed', (e) => {
+            this.payers.delete(e.requestId);
+            if (this.get(e.requestId)?.status === 'declined') return; // The PaymentDeclined that follows a denial
+            this.update(e.requestId, {
+                status: e.possiblySettled ? 'unknown' : 'failed',
+                error: { code: e.code, message: e.message }
+            }, e.at);
+        });
+    }
+
+    get(id: string): LedgerEntry | undefined {
+        return this.latest().get(id);
+    }
+
+    /**
+     * Current state of every payment, oldest first.
+     */
+    entries(): LedgerEntry[] {
+        return [...this.latest().values()].sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    byTransaction(transaction: string): LedgerEntry | undefined {
+        return this.entries().find(e => e.receipt?.transaction.toLowerCase() === transaction.toLowerCase());
+    }
+
+    byMerchant(origin: string): LedgerEntry[] {
+        const normalized = new URL(origin).origin;
+        return this.entries().filter(e => e.origin === normalized);
+    }
+
+    /**
+     * Payments made since local midnight.
+     */
+    today(now = new Date()): LedgerEntry[] {
+        const midnight = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+        return this.entries().filter(e => e.createdAt >= midnight);
+    }
+
+    /**
+     * Payments whose outcome is not settled on-chain yet: pending, unknown, or
+     * settled per the merchant but not confirmed on-chain.
+     */
+    unconfirmed(): LedgerEntry[] {
+        return this.entries().filter(e => e.status === 'pending' || e.status === 'unknown' || e.status === 'settled');
+    }
+
+    /**
+     * Appends a new entry, or a new state of an existing one.
+     */
+    append(entry: LedgerEntry) {
+        this.store.append(entry);
+        this.latest().set(entry.id, entry);
+    }
+
+    update(id: string, patch: Partial<Omit<LedgerEntry, 'id'>>, at = Date.now()) {
+        const current = this.get(id);
+        if (!current) return;
+        this.append({ ...current, ...patch, updatedAt: at });
+    }
+
+    private latest(): Map<string, LedgerEntry> {
+        if (!this.index) {
+            this.index = new Map();
+            for (const entry of this.store.load()) {
+                this.index.set(entry.id, entry);
+            }
+        }
+        return this.index;
+    }
+}
@@ -0,0 +1,207 @@
+import fs from 'fs';
+import path from 'path';
+import type { PaymentRequirements } from '@x402/core/types';
+import { PaymentError, X402ErrorDetails } from './errors';
+
+/**
+ * Which merchants the client deals with, and who it pays on their behalf.
+ *
+ * Origins are checked before a request is sent at all, payTo addresses before the
+ * selected option is signed. Blocklists win over allowlists; an allowlist, when
+ * set, refuses everything not on it.
+ *
+ * Origin patterns may use `*` for one or more DNS labels or for the port:
+ *   "https://api.example.com", "https://*.example.com", "*.example.com" (any scheme),
+ *   "http://localhost:*"
+ *
+ * The payTo each origin was paid at is remembered per network. A merchant that
+ * suddenly asks to be paid somewhere else may have been hijacked (DNS, a
+ * compromised server, a malicious proxy), so the change is refused by default.
+ */
+
+export interface MerchantPolicyOptions {
+    allowedOrigins?: string[];
+    blockedOrigins?: string[];
+    allowedPayTo?: string[];
+    blockedPayTo?: string[];
+    // A payTo different from the one this origin was paid at before: refuse (default),
+    // warn and pay, or don't track payees at all
+    onPayToChange?: 'block' | 'warn' | 'off';
+}
+
+export type MerchantRefusal = 'origin-blocked' | 'origin-not-allowed' | 'payto-blocked' | 'payto-not-allowed' | 'payto-changed';
+
+/**
+ * The merchant or the address it wants to be paid at is not trusted (see ./merchantPolicy).
+ */
+export class MerchantNotTrusted extends PaymentError {
+    readonly refusal: MerchantRefusal;
+    // The payTo this origin was paid at before ('payto-changed' only)
+    readonly previousPayTo?: string;
+
+    constructor(refusal: MerchantRefusal, message: string, details?: X402ErrorDetails, previousPayTo?: string) {
+        super('MERCHANT_NOT_TRUSTED', message, details);
+        this.refusal = refusal;
+        this.previousPayTo = previousPayTo;
+    }
+}
+
+export interface PayeeRecord {
+    payTo: string;
+    firstPaidAt: number;
+    lastPaidAt: number;
+    // The payTo before the last (accepted) change, if any
+    previousPayTo?: string;
+}
+
+// Origin -> CAIP-2 network -> payee
+export type PayeeBook = Record<string, Record<string, PayeeRecord>>;
+
+export interface PayeeStore {
+    load(): PayeeBook;
+    save(book: PayeeBook): void;
+}
+
+export class MemoryPayeeStore implements PayeeStore {
+    private book: PayeeBook = {};
+
+    load() {
+        return structuredClone(this.book);
+    }
+
+    save(book: PayeeBook) {
+        this.book = structuredClone(book);
+    }
+}
+
+/**
+ * Keeps the payees in a JSON file so a change is noticed across restarts.
+ */
+export class FilePayeeStore implements PayeeStore {
+    constructor(private filePath: string = path.resolve(process.cwd(), '.synergy', 'payees.json')) { }
+
+    load(): PayeeBook {
+        if (!fs.existsSync(this.filePath)) {
+            return {};
+        }
+        return JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    }
+
+    save(book: PayeeBook) {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        // Write-then-rename so a crash never leaves a half-written file
+        const tmp = `${this.filePath}.tmp`;
+        fs.writeFileSync(tmp, JSON.stringify(book, null, 2));
+        fs.renameSync(tmp, this.filePath);
+    }
+}
+
+export interface PayeeCheck {
+    // Set when the origin was paid at another address on this network before
+    previousPayTo: string | null;
+}
+
+export class MerchantPolicy {
+    private allowedOrigins?: RegExp[];
+    private blockedOrigins: RegExp[];
+    private allowedPayTo?: Set<string>;
+    private blockedPayTo: Set<string>;
+    private onPayToChange: 'block' | 'warn' | 'off';
+
+    constructor(options: MerchantPolicyOptions = {}, private store: PayeeStore = new MemoryPayeeStore()) {
+        this.allowedOrigins = options.allowedOrigins?.map(originPattern);
+        this.blockedOrigins = (options.blockedOrigins || []).map(originPattern);
+        this.allowedPayTo = options.allowedPayTo && new Set(options.allowedPayTo.map(a => a.toLowerCase()));
+        this.blockedPayTo = new Set((options.blockedPayTo || []).map(a => a.toLowerCase()));
+        this.onPayToChange = options.onPayToChange || 'block';
+    }
+
+    /**
+     * Throws MerchantNotTrusted unless requests to this URL's origin are allowed.
+     */
+    checkOrigin(url: string, details?: X402ErrorDetails) {
+        const origin = new URL(url).origin;
+        if (this.blockedOrigins.some(p => p.test(origin))) {
+            throw new MerchantNotTrusted('origin-blocked', `Merchant ${origin} is blocked`, details);
+        }
+        if (this.allowedOrigins && !this.allowedOrigins.some(p => p.test(origin))) {
+            throw new MerchantNotTrusted('origin-not-allowed', `Merchant ${origin} is not on the allowlist`, details);
+        }
+    }
+
+    /**
+     * Throws MerchantNotTrusted unless the option's payTo may be paid for this origin.
+     * A changed payTo is reported in the result when the policy only warns.
+     */
+    checkPayee(origin: string, requirements: PaymentRequirements, details?: X402ErrorDetails): PayeeCheck {
+        const payTo = requirements.payTo.toLowerCase();
+        if (this.blockedPayTo.has(payTo)) {
+            throw new MerchantNotTrusted('payto-blocked', `payTo ${requirements.payTo} is blocked`, details);
+        }
+        if (this.allowedPayTo && !this.allowedPayTo.has(payTo)) {
+            throw new MerchantNotTrusted('payto-not-allowed', `payTo ${requirements.payTo} is not on the allowlist`, details);
+        }
+
+        const known = this.onPayToChange === 'off' ? undefined : this.store.load()[origin]?.[requirements.network];
+        if (!known || known.payTo.toLowerCase() === payTo) {
+            return { previousPayTo: null };
+        }
+        if (this.onPayToChange === 'block') {
+            throw new MerchantNotTrusted('payto-changed',
+                `Possible hijack: ${origin} asks to be paid at ${requirements.payTo} on ${requirements.network}, but was paid at ${known.payTo} before`,
+                details, known.payTo);
+        }
+        return { previousPayTo: known.payTo };
+    }
+
+    /**
+     * Records that `origin` was paid at the option's payTo, pinning it for next time.
+     */
+    remember(origin: string, requirements: PaymentRequirements, at = Date.now()) {
+        if (this.onPayToChange === 'off') return;
+        const book = this.store.load();
+        const byNetwork = book[origin] ??= {};
+        const known = byNetwork[requirements.network];
+        if (known && known.payTo.toLowerCase() === requirements.payTo.toLowerCase()) {
+            known.lastPaidAt = at;
+        } else {
+            byNetwork[requirements.network] = {
+                payTo: requirements.payTo,
+                firstPaidAt: at,
+                lastPaidAt: at,
+                ...(known ? { previousPayTo: known.payTo } : {})
+            };
+        }
+        this.store.save(book);
+    }
+
+    /**
+     * Payees this policy has pinned, by origin and network.
+     */
+    payees(): PayeeBook {
+        return this.store.load();
+    }
+}
+
+/**
+ * True when `origin` (e.g. "https://api.example.com") matches the pattern.
+ */
+export function originMatches(pattern: string, origin: string): boolean {
+    return originPattern(pattern).test(new URL(origin).origin);
+}
+
+function originPattern(pattern: string): RegExp {
+    const trimmed = pattern.trim().replace(/\/+$/, '').toLowerCase();
+    const withScheme = trimmed.includes('://') ? trimmed : `*://${trimmed}`;
+    const [, scheme, host, port] = withScheme.match(/^([^:]+):\/\/([^:/]+)(?::([^/]+))?$/) || [];
+    if (!scheme || !host) {
+        throw new Error(`Invalid merchant origin pattern: ${pattern}`);
+    }
+    const escape = (s: string) => s.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    const schemeRe = scheme === '*' ? 'https?' : escape(scheme);
+    // "*." matches one or more labels: *.example.com covers a.example.com and a.b.example.com, not example.com
+    const hostRe = escape(host).replace(/\*/g, '[a-z0-9-]+(?:\\.[a-z0-9-]+)*');
+    // No port in the pattern means the scheme's default port
+    const portRe = port === undefined ? '' : port === '*' ? '(?::\\d+)?' : `:${escape(port)}`;
+    return new RegExp(`^${schemeRe}://${hostRe}${portRe}$`);
+}
@@ -0,0 +1,131 @@
+import type { Chain } from 'viem';
+import { base, baseSepolia, mainnet, sepolia, polygon } from 'viem/chains';
+
+/**
+ * Registry of the EVM networks and tokens Synergy knows, keyed by CAIP-2 id.
+ * The agent, the CLI, the dashboard and the RailBridge merchant/facilitator
+ * servers all resolve chains, RPCs, explorers and token addresses here.
+ */
+
+export type Caip2 = `${string}:${string}`;
+
+export interface TokenInfo {
+    symbol: string;
+    address: `0x${string}`;
+    decimals: number;
+    // EIP-712 domain of the token's transferWithAuthorization (sent as requirements.extra)
+    eip712: { name: string; version: string };
+    // Priced 1:1 in USD
+    usdStablecoin: boolean;
+}
+
+export interface NetworkInfo {
+    id: Caip2;
+    name: string;
+    chain: Chain;
+    testnet: boolean;
+    // Default public RPC; override per network with RpcUrlMap
+    rpcUrl: string;
+    explorerUrl: string;
+    // {hash} / {address} are substituted
+    explorerTxTemplate: string;
+    explorerAddressTemplate: string;
+    nativeCurrency: Chain['nativeCurrency'];
+    tokens: TokenInfo[];
+}
+
+function usdc(address: `0x${string}`, eip712Name: string): TokenInfo {
+    return { symbol: 'USDC', address, decimals: 6, eip712: { name: eip712Name, version: '2' }, usdStablecoin: true };
+}
+
+function network(id: Caip2, chain: Chain, rpcUrl: string, explorerUrl: string, tokens: TokenInfo[]): NetworkInfo {
+    return {
+        id,
+        name: chain.name,
+        chain,
+        testnet: Boolean(chain.testnet),
+        rpcUrl,
+        explorerUrl,
+        explorerTxTemplate: `${explorerUrl}/tx/{hash}`,
+        explorerAddressTemplate: `${explorerUrl}/address/{address}`,
+        nativeCurrency: chain.nativeCurrency,
+        tokens
+    };
+}
+
+export const NETWORKS: Record<string, NetworkInfo> = {
+    'eip155:84532': network('eip155:84532', baseSepolia, 'https://sepolia.base.org', 'https://sepolia.basescan.org', [
+        usdc('0x036CbD53842c5426634e7929541eC2318f3dCF7e', 'USDC')
+    ]),
+    'eip155:8453': network('eip155:8453', base, 'https://mainnet.base.org', 'https://basescan.org', [
+        usdc('0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', 'USD Coin')
+    ]),
+    'eip155:11155111': network('eip155:11155111', sepolia, 'https://ethereum-sepolia-rpc.publicnode.com', 'https://sepolia.etherscan.io', [
+        usdc('0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238', 'USDC')
+    ]),
+    'eip155:1': network('eip155:1', mainnet, 'https://ethereum-rpc.publicnode.com', 'https://etherscan.io', [
+        usdc('0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 'USD Coin')
+    ]),
+    'eip155:137': network('eip155:137', polygon, 'https://polygon-rpc.com', 'https://polygonscan.com', [
+        usdc('0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359', 'USD Coin')
+    ])
+};
+
+export const DEFAULT_NETWORK = 'eip155:84532';
+
+// CAIP-2 id -> RPC URL, overriding the defaults above
+export type RpcUrlMap = Record<string, string>;
+
+/**
+ * CAIP-2 ids of every registered network, e.g. for registerExactEvmScheme.
+ */
+export function networkIds(options: { testnet?: boolean } = {}): Caip2[] {
+    return Object.values(NETWORKS)
+        .filter(n => options.testnet === undefined || n.testnet === options.testnet)
+        .map(n => n.id);
+}
+
+export function getNetwork(network: string): NetworkInfo {
+    const info = NETWORKS[network];
+    if (!info) {
+        throw new Error(`Unsupported network: ${network}`);
+    }
+    return info;
+}
+
+export function toCaip2(chainId: number): Caip2 {
+    return `eip155:${chainId}`;
+}
+
+/**
+ * A known token on a network, by symbol ("USDC") or address (any case).
+ */
+export function findToken(network: string, symbolOrAddress: string): TokenInfo | undefined {
+    const wanted = symbolOrAddress.toLowerCase();
+    return NETWORKS[network]?.tokens.find(t => t.address.toLowerCase() === wanted || t.symbol.toLowerCase() === wanted);
+}
+
+export function getToken(network: string, symbolOrAddress: string): TokenInfo {
+    const token = findToken(network, symbolOrAddress);
+    if (!token) {
+        throw new Error(`Unknown token ${symbolOrAddress} on ${network}`);
+    }
+    return token;
+}
+
+/**
+ * An x402 price in a known token: `{ asset, amount, extra: { name, version } }`.
+ * The amount is in the token's smallest unit.
+ */
+export function tokenPrice(network: string, symbol: string, amount: string): { asset: string; amount: string; extra: { name: string; version: string } } {
+    const token = getToken(network, symbol);
+    return { asset: token.address, amount, extra: { ...token.eip712 } };
+}
+
+export function explorerTxUrl(network: string, txHash: string): string | undefined {
+    return NETWORKS[network]?.explorerTxTemplate.replace('{hash}', txHash);
+}
+
+export function explorerAddressUrl(network: string, address: string): string | undefined {
+    return NETWORKS[network]?.explorerAddressTemplate.replace('{address}', address);
+}
@@ -0,0 +1,123 @@
+import { formatUnits } from 'viem';
+import type { PaymentRequired, PaymentRequirements } from '@x402/core/types';
+import { parseAmount } from './selection';
+
+/**
+ * Normalized view of a 402 PaymentRequired document, for showing prices and
+ * deciding whether to pay before anything is signed.
+ */
+
+// Same key and shape the RailBridge facilitator declares (extensions/crossChain.ts)
+export const CROSS_CHAIN = 'cross-chain';
+
+export interface CrossChainInfo {
+    // CAIP-2 network where the merchant receives the funds
+    destinationNetwork: string;
+    destinationAsset: string;
+    destinationPayTo: string;
+}
+
+export interface TokenMetadata {
+    symbol: string;
+    decimals: number;
+}
+
+export interface QuoteOption {
+    scheme: string;
+    network: string;
+    asset: string;
+    // Unknown when the token could not be identified
+    symbol: string | null;
+    decimals: number | null;
+    // Base units, as in the requirements
+    amount: string;
+    // Human units (e.g. "0.01"), null without decimals or a valid amount
+    amountFormatted: string | null;
+    // Why the option cannot be paid (an amount that is no number), null when it can
+    invalid: string | null;
+    payTo: string;
+    maxTimeoutSeconds: number;
+    // Where the merchant ends up being paid: the cross-chain destination, or the payment network itself
+    destinationNetwork: string;
+    crossChain: CrossChainInfo | null;
+    requirements: PaymentRequirements;
+}
+
+export interface PaymentQuote {
+    url: string;
+    // False when the endpoint answered without asking for payment
+    paymentRequired: boolean;
+    x402Version: number | null;
+    description: string | null;
+    options: QuoteOption[];
+    // What the selection policy would pay with, and why
+    selected: QuoteOption | null;
+    reason: string | null;
+    crossChain: CrossChainInfo | null;
+    raw: PaymentRequired | null;
+}
+
+/**
+ * Reads the cross-chain extension from a PaymentRequired, or null if absent/invalid.
+ */
+export function extractCrossChain(paymentRequired: PaymentRequired): CrossChainInfo | null {
+    const extension = paymentRequired.extensions?.[CROSS_CHAIN] as { info?: Partial<CrossChainInfo> } | undefined;
+    const info = extension?.info;
+    if (!info ||
+        typeof info.destinationNetwork !== 'string' || !/^eip155:\d+$/.test(info.destinationNetwork) ||
+        typeof info.destinationAsset !== 'string' || !/^0x[a-fA-F0-9]{40}$/.test(info.destinationAsset) ||
+        typeof info.destinationPayTo !== 'string' || !/^0x[a-fA-F0-9]{40}$/.test(info.destinationPayTo)) {
+        return null;
+    }
+    return {
+        destinationNetwork: info.destinationNetwork,
+        destinationAsset: info.destinationAsset,
+        destinationPayTo: info.destinationPayTo
+    };
+}
+
+/**
+ * Why an option's amount cannot be paid, or null when it is a number of base units.
+ */
+export function invalidAmount(requirements: PaymentRequirements): string | null {
+    return parseAmount(requirements.amount) === null
+        ? `Invalid amount "${requirements.amount}" in the payment requirements`
+        : null;
+}
+
+/**
+ * An option whose amount is no number is kept, flagged as `invalid`.
+ */
+export function toQuoteOption(requirements: PaymentRequirements, token: TokenMetadata | null, crossChain: CrossChainInfo | null): QuoteOption {
+    const amount = parseAmount(requirements.amount);
+    return {
+        scheme: requirements.scheme,
+        network: requirements.network,
+        asset: requirements.asset,
+        symbol: token?.symbol ?? null,
+        decimals: token?.decimals ?? null,
+        amount: requirements.amount,
+        amountFormatted: token && amount !== null ? formatUnits(amount, token.decimals) : null,
+        invalid: amount === null ? invalidAmount(requirements) : null,
+        payTo: requirements.payTo,
+        maxTimeoutSeconds: requirements.maxTimeoutSeconds,
+        destinationNetwork: crossChain?.destinationNetwork ?? requirements.network,
+        crossChain,
+        requirements
+    };
+}
+
+/**
+ * One line per option, e.g. "0.01 USDC on eip155:84532 -> eip155:11155111".
+ */
+export function describeQuoteOption(option: QuoteOption): string {
+    const amount = option.invalid
+        ? `invalid amount "${option.amount}" of ${option.asset}`
+        : option.amountFormatted !== null
+            ? `${option.amountFormatted} ${option.symbol}`
+            : `${option.amount} base units of ${option.asset}`;
+    const route = option.destinationNetwork === option.network
+        ? option.network
+        : `${option.network} -> ${option.destinationNetwork}`;
+    return `${amount} on ${route} (payTo ${option.payTo})`;
+}
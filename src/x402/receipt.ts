@@ -0,0 +1,132 @@
+import { parseAbiItem, parseEventLogs } from 'viem';
+import { x402HTTPClient } from '@x402/core/client';
+import type { PaymentRequirements } from '@x402/core/types';
+import { abortable, sleep } from './abort';
+
+const TRANSFER_EVENT = parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 value)');
+
+/**
+ * Settlement receipt for a paid request.
+ * Decoded from the PAYMENT-RESPONSE header set by the x402 middleware after settlement.
+ */
+export interface PaymentReceipt {
+    transaction: string;
+    network: string;
+    payer: string;
+    amount: string;
+    asset?: string;
+    payTo?: string;
+    // true/false once checked against the chain, undefined if never checked
+    verifiedOnChain?: boolean;
+    source: 'header' | 'chain';
+}
+
+/**
+ * Decodes the settlement receipt from the response headers.
+ * Returns null when the merchant did not send one (or sent garbage).
+ */
+export function decodePaymentReceipt(
+    httpClient: x402HTTPClient,
+    headers: Headers,
+    requirements: PaymentRequirements | null,
+    payer: string
+): PaymentReceipt | null {
+    let settle;
+    try {
+        settle = httpClient.getPaymentSettleResponse((name) => headers.get(name));
+    } catch {
+        return null;
+    }
+
+    if (!settle || !settle.success || !settle.transaction) {
+        return null;
+    }
+
+    return {
+        transaction: settle.transaction,
+        network: settle.network || requirements?.network,
+        payer: settle.payer || payer,
+        amount: requirements?.amount,
+        asset: requirements?.asset,
+        payTo: requirements?.payTo,
+        source: 'header'
+    };
+}
+
+/**
+ * Checks that the receipt's transaction actually contains the expected Transfer
+ * (payer -> payTo, exact amount, right token).
+ */
+export async function confirmReceiptOnChain(publicClient: any, receipt: PaymentReceipt, signal?: AbortSignal): Promise<boolean> {
+    if (!receipt.asset || !receipt.payTo || !receipt.amount) {
+        return false;
+    }
+
+    const txReceipt = await abortable<any>(publicClient.waitForTransactionReceipt({
+        hash: receipt.transaction as `0x${string}`,
+        timeout: 30_000
+    }), signal);
+
+    const expectedAmount = BigInt(receipt.amount);
+    const transfers = parseEventLogs({ abi: [TRANSFER_EVENT], logs: txReceipt.logs });
+    return transfers.some((log) =>
+        log.address.toLowerCase() === receipt.asset!.toLowerCase() &&
+        log.args.from.toLowerCase() === receipt.payer.toLowerCase() &&
+        log.args.to.toLowerCase() === receipt.payTo!.toLowerCase() &&
+        log.args.value === expectedAmount
+    );
+}
+
+/**
+ * Fallback for merchants that do not return a PAYMENT-RESPONSE header:
+ * polls Transfer logs (payer -> payTo, exact amount) starting at `fromBlock`.
+ * Only a hint - a second payment with the same amount in the window can match too.
+ */
+export async function findReceiptOnChain(
+    publicClient: any,
+    requirements: PaymentRequirements,
+    payer: string,
+    fromBlock: bigint,
+    log: (msg: string) => void,
+    attempts = 10,
+    intervalMs = 3000,
+    signal?: AbortSignal
+): Promise<PaymentReceipt | null> {
+    const expectedAmount = BigInt(requirements.amount);
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+        log(`[X402Client] 🔄 Attempt ${attempt}/${attempts}: Searching Transfer logs...`);
+
+        const logs = await abortable<any>(publicClient.getLogs({
+            address: requirements.asset as `0x${string}`,
+            event: TRANSFER_EVENT,
+            args: {
+                from: payer as `0x${string}`,
+                to: requirements.payTo as `0x${string}`
+            },
+            fromBlock,
+            toBlock: 'latest'
+        }), signal);
+
+        // Newest first
+        const match = [...logs].reverse().find((l: any) => l.args.value === expectedAmount);
+        if (match) {
+            return {
+                transaction: match.transactionHash,
+                network: requirements.network,
+                payer,
+                amount: requirements.amount,
+                asset: requirements.asset,
+                payTo: requirements.payTo,
+                verifiedOnChain: true,
+                source: 'chain'
+            };
+        }
+
+        if (attempt < attempts) {
+            await sleep(intervalMs, signal);
+        }
+    }
+
+    return null;
+}
@@ -0,0 +1,85 @@
+import { sleep } from './abort';
+
+/**
+ * Retries for the paid leg of an x402 request.
+ *
+ * Once a payment is signed, a network error or 5xx does not tell us whether the
+ * merchant settled. Retrying with the SAME payment header is safe: the EIP-3009
+ * nonce can only be settled once, so at worst the retry is refused - we never
+ * sign (and pay) a second time.
+ */
+
+export interface RetryOptions {
+    // Retries after the first paid attempt (default 3; 0 disables)
+    retries?: number;
+    // Delay before the first retry, doubled (x factor) each time
+    initialDelayMs?: number;
+    maxDelayMs?: number;
+    factor?: number;
+    // Statuses worth retrying (default: 500, 502, 503, 504)
+    retryOnStatus?: number[];
+}
+
+export interface RetryAttempt {
+    attempt: number;
+    delayMs: number;
+    reason: string;
+}
+
+const DEFAULT_RETRY: Required<RetryOptions> = {
+    retries: 3,
+    initialDelayMs: 500,
+    maxDelayMs: 8000,
+    factor: 2,
+    retryOnStatus: [500, 502, 503, 504]
+};
+
+export function backoffDelay(attempt: number, options: RetryOptions = {}): number {
+    const { initialDelayMs, maxDelayMs, factor } = { ...DEFAULT_RETRY, ...options };
+    return Math.min(maxDelayMs, initialDelayMs * factor ** attempt);
+}
+
+export function isPaidRequest(request: Request): boolean {
+    return request.headers.has('PAYMENT-SIGNATURE') || request.headers.has('X-PAYMENT');
+}
+
+/**
+ * fetch for wrapFetchWithPayment: unpaid requests go through once, paid ones are
+ * retried with backoff, each attempt a clone of the same signed Request.
+ * Stops retrying (and waiting) as soon as the request's signal aborts.
+ */
+export function createRetryingFetch(
+    fetchFn: (request: Request) => Promise<Response>,
+    options: RetryOptions | false = {},
+    onRetry: (attempt: RetryAttempt) => void = () => { }
+): (request: Request) => Promise<Response> {
+    const retry = options === false ? { ...DEFAULT_RETRY, retries: 0 } : { ...DEFAULT_RETRY, ...options };
+
+    return async (request: Request) => {
+        if (!isPaidRequest(request) || retry.retries === 0) {
+            return fetchFn(request);
+        }
+
+        for (let attempt = 0; ; attempt++) {
+            const last = attempt >= retry.retries;
+            let reason: string;
+            try {
+                const response = await fetchFn(last ? request : request.clone());
+                if (last || !retry.retryOnStatus.includes(response.status)) {
+                    return response;
+                }
+                reason = `HTTP ${response.status}`;
+                await response.body?.cancel();
+            } catch (error: any) {
+                if (last || request.signal.aborted) {
+                    throw error;
+                }
+                reason = error.message;
+            }
+
+            const delayMs = backoffDelay(attempt, retry);
+            onRetry({ attempt: attempt + 1, delayMs, reason });
+            await sleep(delayMs, request.signal);
+        }
+    };
+}
@@ -0,0 +1,281 @@
+import type { PaymentRequirements } from '@x402/core/types';
+import { findToken } from './networks';
+
+/**
+ * Payment option selection.
+ *
+ * A policy narrows and/or re-orders the options offered in a 402 response and
+ * says why. Policies compose: each one sees what the previous one kept, and the
+ * first option left standing is the one we pay with.
+ */
+
+export interface SelectionContext {
+    payer: string;
+    // Token balance of the payer for the option's asset on the option's network
+    readBalance(option: PaymentRequirements): Promise<bigint>;
+}
+
+export interface SelectionResult {
+    // Options still acceptable, best first. Empty means "nothing acceptable".
+    options: PaymentRequirements[];
+    reason: string;
+}
+
+export interface PaymentSelectionPolicy {
+    readonly name: string;
+    apply(options: PaymentRequirements[], ctx: SelectionContext): Promise<SelectionResult>;
+}
+
+export interface SelectionDecision {
+    option: PaymentRequirements;
+    reason: string;
+}
+
+export interface AssetPrice {
+    decimals: number;
+    usd: number;
+}
+
+/**
+ * Declarative form used by AgentConfig.
+ */
+export type SelectionConfig =
+    | { strategy: 'cheapestUsd'; prices?: Record<string, AssetPrice> }
+    | { strategy: 'preferredNetworks'; networks: string[] }
+    | { strategy: 'preferredAsset'; assets: string[] }
+    | { strategy: 'allowlist'; networks?: string[]; assets?: string[] }
+    | { strategy: 'maxPrice'; usd: number; prices?: Record<string, AssetPrice> }
+    | { strategy: 'heldAssets' };
+
+export const DEFAULT_PREFERRED_NETWORKS = ['eip155:84532'];
+
+/**
+ * Runs the policy and returns the chosen option, or null when every option was rejected.
+ */
+export async function selectPaymentOption(
+    policy: PaymentSelectionPolicy,
+    options: PaymentRequirements[],
+    ctx: SelectionContext
+): Promise<SelectionDecision | null> {
+    const result = await policy.apply(options, ctx);
+    if (result.options.length === 0) {
+        return null;
+    }
+    return { option: result.options[0], reason: result.reason };
+}
+
+/**
+ * Applies policies in order; stops as soon as one leaves nothing.
+ */
+export function composePolicies(...policies: PaymentSelectionPolicy[]): PaymentSelectionPolicy {
+    return {
+        name: policies.map(p => p.name).join(' > '),
+        async apply(options, ctx) {
+            let current = options;
+            const reasons: string[] = [];
+            for (const policy of policies) {
+                const result = await policy.apply(current, ctx);
+                reasons.push(`${policy.name}: ${result.reason}`);
+                current = result.options;
+                if (current.length === 0) break;
+            }
+            return { options: current, reason: reasons.join('; ') };
+        }
+    };
+}
+
+/**
+ * An amount of base units as a bigint, or null unless it is a plain non-negative integer.
+ */
+export function parseAmount(amount: unknown): bigint | null {
+    return typeof amount === 'string' && /^\d+$/.test(amount) ? BigInt(amount) : null;
+}
+
+/**
+ * USD value of an option's amount, or null if we do not know the asset.
+ * `prices` is keyed by lowercased asset address; stablecoins in the network registry
+ * are priced at $1. Anything else is unpriced: a token's EIP-712 name is chosen by
+ * whoever deployed it, so "USD Coin" at an unknown address proves nothing.
+ * An amount that is not a number of base units, or too large to price, is unpriced too.
+ */
+export function priceInUsd(o: PaymentRequirements, prices: Record<string, AssetPrice> = {}): number | null {
+    const amount = parseAmount(o.amount);
+    if (amount === null) {
+        return null;
+    }
+    const known = prices[o.asset.toLowerCase()];
+    const token = known ? null : findToken(o.network, o.asset);
+    let usd: number;
+    if (known) {
+        usd = Number(amount) / 10 ** known.decimals * known.usd;
+    } else if (token?.usdStablecoin) {
+        usd = Number(amount) / 10 ** token.decimals;
+    } else {
+        return null;
+    }
+    return Number.isFinite(usd) ? usd : null;
+}
+
+/**
+ * True for USDC/USDT-style options (6 decimals) whose token is a stablecoin in the
+ * network registry.
+ */
+export function isKnownStablecoin(o: PaymentRequirements): boolean {
+    const token = findToken(o.network, o.asset);
+    return !!token && token.usdStablecoin && token.decimals === 6;
+}
+
+/**
+ * Cheapest option in USD. Options we cannot price are kept but ranked last.
+ */
+export function cheapestUsd(prices: Record<string, AssetPrice> = {}): PaymentSelectionPolicy {
+    const priceOf = (o: PaymentRequirements) => priceInUsd(o, prices);
+
+    return {
+        name: 'cheapestUsd',
+        async apply(options) {
+            const priced = options.map(o => ({ o, usd: priceOf(o) }));
+            priced.sort((a, b) => (a.usd ?? Infinity) - (b.usd ?? Infinity));
+            const best = priced[0];
+            const reason = best && best.usd !== null
+                ? `cheapest is $${best.usd.toFixed(4)} on ${best.o.network}`
+                : 'no option could be priced in USD, order unchanged';
+            return { options: priced.map(p => p.o), reason };
+        }
+    };
+}
+
+/**
+ * Prefers networks in the given order; other networks are kept after them.
+ */
+export function preferredNetworks(networks: string[]): PaymentSelectionPolicy {
+    return {
+        name: 'preferredNetworks',
+        async apply(options) {
+            const rank = (o: PaymentRequirements) => {
+                const i = networks.indexOf(o.network);
+                return i === -1 ? networks.length : i;
+            };
+            const sorted = [...options].sort((a, b) => rank(a) - rank(b));
+            const hit = sorted.length > 0 && networks.includes(sorted[0].network);
+            return {
+                options: sorted,
+                reason: hit ? `preferred network ${sorted[0].network} offered` : 'no preferred network offered'
+            };
+        }
+    };
+}
+
+/**
+ * Prefers assets in the given order, matched by address or EIP-712 name (e.g. "USDC").
+ */
+export function preferredAsset(assets: string[]): PaymentSelectionPolicy {
+    const wanted = assets.map(a => a.toLowerCase());
+    return {
+        name: 'preferredAsset',
+        async apply(options) {
+            const rank = (o: PaymentRequirements) => {
+                const i = wanted.findIndex(a => matchesAsset(o, a));
+                return i === -1 ? wanted.length : i;
+            };
+            const sorted = [...options].sort((a, b) => rank(a) - rank(b));
+            const hit = sorted.length > 0 && rank(sorted[0]) < wanted.length;
+            return {
+                options: sorted,
+                reason: hit ? `preferred asset ${sorted[0].asset} offered` : 'no preferred asset offered'
+            };
+        }
+    };
+}
+
+/**
+ * Drops any option whose network or asset is not allowlisted.
+ * Omitting a list means "any".
+ */
+export function allowlist(allowed: { networks?: string[]; assets?: string[] }): PaymentSelectionPolicy {
+    const assets = allowed.assets?.map(a => a.toLowerCase());
+    return {
+        name: 'allowlist',
+        async apply(options) {
+            const kept = options.filter(o =>
+                (!allowed.networks || allowed.networks.includes(o.network)) &&
+                (!assets || assets.some(a => matchesAsset(o, a)))
+            );
+            return { options: kept, reason: `kept ${kept.length} of ${options.length}` };
+        }
+    };
+}
+
+/**
+ * Drops options priced above `usd`. Options we cannot price are dropped too.
+ */
+export function maxPrice(usd: number, prices: Record<string, AssetPrice> = {}): PaymentSelectionPolicy {
+    return {
+        name: 'maxPrice',
+        async apply(options) {
+            const kept = options.filter(o => {
+                const price = priceInUsd(o, prices);
+                return price !== null && price <= usd;
+            });
+            return { options: kept, reason: `${kept.length} of ${options.length} within $${usd}` };
+        }
+    };
+}
+
+/**
+ * Drops options the payer cannot cover from its current balance.
+ */
+export function heldAssets(): PaymentSelectionPolicy {
+    return {
+        name: 'heldAssets',
+        async apply(options, ctx) {
+            const kept: PaymentRequirements[] = [];
+            for (const o of options) {
+                try {
+                    if (await ctx.readBalance(o) >= BigInt(o.amount)) {
+                        kept.push(o);
+                    }
+                } catch {
+                    // Unreadable balance (unknown token, RPC down) counts as not held
+                }
+            }
+            return { options: kept, reason: `payer holds enough for ${kept.length} of ${options.length}` };
+        }
+    };
+}
+
+/**
+ * Builds a policy from agent config. An array composes in order.
+ */
+export function createSelectionPolicy(config?: SelectionConfig | SelectionConfig[] | PaymentSelectionPolicy): PaymentSelectionPolicy {
+    if (!config) {
+        return preferredNetworks(DEFAULT_PREFERRED_NETWORKS);
+    }
+    if (Array.isArray(config)) {
+        return composePolicies(...config.map(c => createSelectionPolicy(c)));
+    }
+    if ('apply' in config) {
+        return config;
+    }
+
+    switch (config.strategy) {
+        case 'cheapestUsd':
+            return cheapestUsd(config.prices);
+        case 'preferredNetworks':
+            return preferredNetworks(config.networks);
+        case 'preferredAsset':
+            return preferredAsset(config.assets);
+        case 'allowlist':
+            return allowlist(config);
+        case 'maxPrice':
+            return maxPrice(config.usd, config.prices);
+        case 'heldAssets':
+            return heldAssets();
+        default:
+            throw new Error(`Unknown selection strategy: ${(config as any).strategy}`);
+    }
+}
+
+function matchesAsset(o: PaymentRequirements, asset: string): boolean {
+    return o.asset.toLowerCase() === asset || String(o.extra?.name ?? '').toLowerCase() === asset;
+}
@@ -0,0 +1,266 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { getAddress, keccak256, toBytes, bytesToHex, TypedDataDefinition } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+
+/**
+ * Signer backends. Payments only ever need an address and EIP-712 signatures,
+ * so that is all a Signer exposes - which lets the key live in an encrypted
+ * keystore or behind a remote signing service instead of in an env var.
+ */
+
+export type SignerKind = 'raw-key' | 'keystore' | 'remote';
+
+export interface TypedDataToSign {
+    domain: Record<string, unknown>;
+    types: Record<string, readonly { name: string; type: string }[]>;
+    primaryType: string;
+    message: Record<string, unknown>;
+}
+
+export interface Signer {
+    readonly kind: SignerKind;
+    readonly address: `0x${string}`;
+    signTypedData(typedData: TypedDataToSign): Promise<`0x${string}`>;
+}
+
+export function isSigner(value: unknown): value is Signer {
+    return !!value && typeof value === 'object' &&
+        typeof (value as Signer).address === 'string' &&
+        typeof (value as Signer).signTypedData === 'function';
+}
+
+/**
+ * Plain private key held in memory (the original RealWallet behaviour).
+ */
+export class RawKeySigner implements Signer {
+    readonly kind: SignerKind = 'raw-key';
+    readonly address: `0x${string}`;
+    private account: ReturnType<typeof privateKeyToAccount>;
+
+    constructor(privateKey: string) {
+        const formattedKey = privateKey.trim().startsWith('0x') ? privateKey.trim() : `0x${privateKey.trim()}`;
+        this.account = privateKeyToAccount(formattedKey as `0x${string}`);
+        this.address = this.account.address;
+    }
+
+    signTypedData(typedData: TypedDataToSign) {
+        return this.account.signTypedData(typedData as TypedDataDefinition);
+    }
+}
+
+/**
+ * Web3 Secret Storage (v3) keystore, as written by geth, Foundry (`cast wallet`) or
+ * encryptKeystore() below. The key is decrypted once, when the signer is created.
+ */
+export class KeystoreSigner implements Signer {
+    readonly kind: SignerKind = 'keystore';
+    readonly address: `0x${string}`;
+    private inner: RawKeySigner;
+
+    private constructor(privateKey: string) {
+        this.inner = new RawKeySigner(privateKey);
+        this.address = this.inner.address;
+    }
+
+    static fromFile(filePath: string, passphrase: string): KeystoreSigner {
+        return KeystoreSigner.fromJson(fs.readFileSync(filePath, 'utf-8'), passphrase);
+    }
+
+    static fromJson(json: string | KeystoreV3, passphrase: string): KeystoreSigner {
+        const keystore: KeystoreV3 = typeof json === 'string' ? JSON.parse(json) : json;
+        const signer = new KeystoreSigner(decryptKeystore(keystore, passphrase));
+        if (keystore.address && getAddress(`0x${keystore.address.replace(/^0x/, '')}`) !== signer.address) {
+            throw new Error('Keystore address does not match the decrypted key');
+        }
+        return signer;
+    }
+
+    signTypedData(typedData: TypedDataToSign) {
+        return this.inner.signTypedData(typedData);
+    }
+}
+
+export interface RemoteSignerOptions {
+    // Sent as "Authorization: Bearer <token>"
+    token?: string;
+    timeoutMs?: number;
+}
+
+/**
+ * Signs through an HTTP signing service:
+ *   GET  {url}/address          -> { address }
+ *   POST {url}/sign-typed-data  { domain, types, primaryType, message } -> { signature }
+ * Big integers are sent as decimal strings. See src/testing/standInRemoteSigner.ts.
+ */
+export class RemoteSigner implements Signer {
+    readonly kind: SignerKind = 'remote';
+
+    constructor(
+        private url: string,
+        readonly address: `0x${string}`,
+        private options: RemoteSignerOptions = {}
+    ) {
+        this.url = url.replace(/\/$/, '');
+    }
+
+    /**
+     * Asks the service which address it signs for.
+     */
+    static async connect(url: string, options: RemoteSignerOptions = {}): Promise<RemoteSigner> {
+        const base = url.replace(/\/$/, '');
+        const { address } = await remoteCall(`${base}/address`, { method: 'GET' }, options);
+        return new RemoteSigner(base, getAddress(address), options);
+    }
+
+    async signTypedData(typedData: TypedDataToSign): Promise<`0x${string}`> {
+        const { signature } = await remoteCall(`${this.url}/sign-typed-data`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(typedData, (_key, value) => typeof value === 'bigint' ? value.toString() : value)
+        }, this.options);
+        if (typeof signature !== 'string' || !signature.startsWith('0x')) {
+            throw new Error('Remote signer returned no signature');
+        }
+        return signature as `0x${string}`;
+    }
+}
+
+async function remoteCall(url: string, init: RequestInit, options: RemoteSignerOptions): Promise<any> {
+    const headers = new Headers(init.headers);
+    if (options.token) {
+        headers.set('Authorization', `Bearer ${options.token}`);
+    }
+    const response = await fetch(url, {
+        ...init,
+        headers,
+        signal: AbortSignal.timeout(options.timeoutMs ?? 10_000)
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(`Remote signer refused (HTTP ${response.status}): ${data.error || response.statusText}`);
+    }
+    return data;
+}
+
+/**
+ * Turns the decimal strings of a JSON-transported typed data message back into
+ * bigints for its (u)int fields. Used by the remote side.
+ */
+export function reviveTypedData(typedData: TypedDataToSign): TypedDataToSign {
+    const fields = typedData.types[typedData.primaryType] || [];
+    const message = { ...typedData.message };
+    for (const { name, type } of fields) {
+        if (/^u?int\d*$/.test(type) && message[name] !== undefined) {
+            message[name] = BigInt(message[name] as string);
+        }
+    }
+    return { ...typedData, message };
+}
+
+// --- Keystore (Web3 Secret Storage v3) ---
+
+export interface KeystoreV3 {
+    version: 3;
+    id?: string;
+    address?: string;
+    crypto: {
+        cipher: 'aes-128-ctr';
+        cipherparams: { iv: string };
+        ciphertext: string;
+        kdf: 'scrypt' | 'pbkdf2';
+        kdfparams: {
+            dklen: number;
+            salt: string;
+            n?: number;
+            r?: number;
+            p?: number;
+            c?: number;
+            prf?: string;
+        };
+        mac: string;
+    };
+}
+
+function deriveKey(keystore: KeystoreV3, passphrase: string): Buffer {
+    const { kdf, kdfparams } = keystore.crypto;
+    const salt = Buffer.from(kdfparams.salt, 'hex');
+    if (kdf === 'scrypt') {
+        const { n, r, p, dklen } = kdfparams as Required<KeystoreV3['crypto']['kdfparams']>;
+        return crypto.scryptSync(passphrase, salt, dklen, { N: n, r, p, maxmem: 256 * n * r });
+    }
+    if (kdf === 'pbkdf2') {
+        if (kdfparams.prf !== 'hmac-sha256') {
+            throw new Error(`Unsupported keystore prf: ${kdfparams.prf}`);
+        }
+        return crypto.pbkdf2Sync(passphrase, salt, kdfparams.c!, kdfparams.dklen, 'sha256');
+    }
+    throw new Error(`Unsupported keystore kdf: ${kdf}`);
+}
+
+function keystoreMac(derivedKey: Buffer, ciphertext: Buffer): string {
+    return keccak256(new Uint8Array(Buffer.concat([derivedKey.subarray(16, 32), ciphertext]))).slice(2);
+}
+
+// Constant-time, so a wrong passphrase does not leak how much of the MAC matched
+function macMatches(derivedKey: Buffer, ciphertext: Buffer, mac: string): boolean {
+    const expected = Buffer.from(keystoreMac(derivedKey, ciphertext), 'hex');
+    const given = Buffer.from(mac, 'hex');
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+export function decryptKeystore(keystore: KeystoreV3, passphrase: string): `0x${string}` {
+    if (keystore.version !== 3 || keystore.crypto?.cipher !== 'aes-128-ctr') {
+        throw new Error('Unsupported keystore: expected version 3 with aes-128-ctr');
+    }
+    const derivedKey = deriveKey(keystore, passphrase);
+    const ciphertext = Buffer.from(keystore.crypto.ciphertext, 'hex');
+    if (!macMatches(derivedKey, ciphertext, keystore.crypto.mac)) {
+        throw new Error('Wrong keystore passphrase');
+    }
+    const decipher = crypto.createDecipheriv('aes-128-ctr', derivedKey.subarray(0, 16), Buffer.from(keystore.crypto.cipherparams.iv, 'hex'));
+    const privateKey = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+    return bytesToHex(new Uint8Array(privateKey));
+}
+
+/**
+ * Encrypts a private key into a v3 keystore (scrypt). `n` defaults to geth's standard 2^18.
+ */
+export function encryptKeystore(privateKey: string, passphrase: string, options: { n?: number } = {}): KeystoreV3 {
+    const key = toBytes(privateKey.startsWith('0x') ? privateKey as `0x${string}` : `0x${privateKey}`);
+    const salt = crypto.randomBytes(32);
+    const iv = crypto.randomBytes(16);
+    const kdfparams = { dklen: 32, salt: salt.toString('hex'), n: options.n ?? 262144, r: 8, p: 1 };
+
+    const keystore: KeystoreV3 = {
+        version: 3,
+        id: crypto.randomUUID(),
+        address: privateKeyToAccount(bytesToHex(key)).address.slice(2).toLowerCase(),
+        crypto: { cipher: 'aes-128-ctr', cipherparams: { iv: iv.toString('hex') }, ciphertext: '', kdf: 'scrypt', kdfparams, mac: '' }
+    };
+    const derivedKey = deriveKey(keystore, passphrase);
+    const cipher = crypto.createCipheriv('aes-128-ctr', derivedKey.subarray(0, 16), iv);
+    const ciphertext = Buffer.concat([cipher.update(key), cipher.final()]);
+
+    keystore.crypto.ciphertext = ciphertext.toString('hex');
+    keystore.crypto.mac = keystoreMac(derivedKey, ciphertext);
+    return keystore;
+}
+
+// --- Loading from configuration ---
+
+export type SignerConfig =
+    | { type: 'raw-key'; privateKey: string }
+    | { type: 'keystore'; path: string; passphrase: string }
+    | { type: 'remote'; url: string; token?: string };
+
+export async function createSigner(config: SignerConfig): Promise<Signer> {
+    switch (config.type) {
+        case 'raw-key':
+            return new RawKeySigner(config.privateKey);
+        case 'keystore':
+            return KeystoreSigner.fromFile(config.path, config.passphrase);
+        case 'remote':
+            return RemoteSigner.connect(config.url, { token: config.token });
+    }
+}
@@ -0,0 +1,88 @@
+import { getAddress, isAddressEqual } from 'viem';
+import type { PaymentRequirements } from '@x402/core/types';
+
+/**
+ * Signing policy: the only thing our key will sign is an EIP-3009
+ * TransferWithAuthorization that pays exactly what the selected option asks for.
+ * Anything else (transactions, personal messages, other typed data) is refused,
+ * so a malicious merchant or a buggy SDK cannot get a signature for something else.
+ */
+
+export interface SigningPolicyOptions {
+    // Longest allowed validBefore, in seconds from now (default 1 hour)
+    maxValidityWindowSeconds?: number;
+}
+
+export interface TypedDataRequest {
+    domain?: Record<string, any>;
+    types?: Record<string, unknown>;
+    primaryType?: string;
+    message?: Record<string, any>;
+}
+
+const DEFAULT_MAX_VALIDITY_WINDOW_SECONDS = 60 * 60;
+
+/**
+ * Checks a signTypedData request against the requirements we chose to pay.
+ * Returns why the request must be refused, or null if it may be signed.
+ */
+export function checkTransferAuthorization(
+    request: TypedDataRequest,
+    requirements: PaymentRequirements | null,
+    payer: string,
+    options: SigningPolicyOptions = {},
+    now = Math.floor(Date.now() / 1000)
+): string | null {
+    if (!requirements) {
+        return 'no payment option has been selected for this request';
+    }
+    if (request.primaryType !== 'TransferWithAuthorization') {
+        return `refusing to sign ${request.primaryType || 'unknown'} typed data`;
+    }
+
+    const { domain = {}, message = {} } = request;
+    const sameAddress = (a: unknown, b: string) => {
+        try {
+            return isAddressEqual(getAddress(String(a)), getAddress(b));
+        } catch {
+            return false;
+        }
+    };
+
+    if (!sameAddress(message.from, payer)) {
+        return `from ${message.from} is not our address ${payer}`;
+    }
+    if (!sameAddress(message.to, requirements.payTo)) {
+        return `to ${message.to} does not match payTo ${requirements.payTo}`;
+    }
+    if (toBigInt(message.value) !== BigInt(requirements.amount)) {
+        return `value ${message.value} does not match amount ${requirements.amount}`;
+    }
+    if (!sameAddress(domain.verifyingContract, requirements.asset)) {
+        return `verifying contract ${domain.verifyingContract} does not match asset ${requirements.asset}`;
+    }
+
+    const chainId = Number(requirements.network.split(':')[1]);
+    if (Number(domain.chainId) !== chainId) {
+        return `chainId ${domain.chainId} does not match network ${requirements.network}`;
+    }
+
+    const validBefore = toBigInt(message.validBefore);
+    const maxWindow = options.maxValidityWindowSeconds ?? DEFAULT_MAX_VALIDITY_WINDOW_SECONDS;
+    if (validBefore === null || validBefore <= BigInt(now)) {
+        return `validBefore ${message.validBefore} is not in the future`;
+    }
+    if (validBefore > BigInt(now + maxWindow)) {
+        return `validBefore is ${validBefore - BigInt(now)}s away, more than the allowed ${maxWindow}s`;
+    }
+
+    return null;
+}
+
+function toBigInt(value: unknown): bigint | null {
+    try {
+        return BigInt(value as any);
+    } catch {
+        return null;
+    }
+}